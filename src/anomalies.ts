@@ -0,0 +1,234 @@
+import { countMetrics, maxDateSpanDays } from "./constants.js";
+import { addDays, currentDate, daysBetween, formatIsoDate, parseIsoDate, resolveDateRange } from "./dates.js";
+import { ValidationError } from "./types.js";
+import { metricValue, round } from "./utils.js";
+
+import type { CountMetric } from "./constants.js";
+import type {
+  Anomaly,
+  AnomalyParams,
+  AnomalyResponse,
+  PlausibleApiResponse,
+  PlausibleQuery,
+  QueryOptions,
+} from "./types.js";
+
+// Anomaly detection over time series. Each point is compared against a
+// baseline of earlier comparable points: the same weekday for daily series,
+// the same weekday and hour for hourly ones, or simply the preceding points
+// when seasonality is off.
+
+type Interval = AnomalyParams['interval'];
+
+type Series = {
+  dimensionValue?: string;
+  values: Map<string, number>;
+};
+
+// Bucket keys from the start of the history, and where the analyzed range begins
+type Timeline = {
+  keys: Array<string>;
+  firstIndex: number;
+};
+
+export type AnomalyPlan = {
+  query: PlausibleQuery & QueryOptions;
+  analyzedRange: [string, string];
+};
+
+const MIN_BASELINE_POINTS = 3;
+
+// Consistency constant that makes the MAD comparable to a standard deviation
+const MAD_SCALE = 1.4826;
+
+function seasonLength(interval: Interval, seasonal: boolean): number {
+  if (!seasonal) return 1;
+  return interval === 'day' ? 7 : 7 * 24;
+}
+
+// Normalize API time values to "YYYY-MM-DD" or "YYYY-MM-DD HH:00"
+function bucketKey(interval: Interval, value: string): string {
+  return interval === 'day' ? value.slice(0, 10) : `${value.slice(0, 10)} ${value.slice(11, 13)}:00`;
+}
+
+function bucketKeys(interval: Interval, start: string, end: string): Array<string> {
+  const keys: Array<string> = [];
+  for (let date = parseIsoDate(start); formatIsoDate(date) <= end; date = addDays(date, 1)) {
+    const day = formatIsoDate(date);
+    if (interval === 'day') {
+      keys.push(day);
+    } else {
+      for (let hour = 0; hour < 24; hour++) keys.push(`${day} ${String(hour).padStart(2, '0')}:00`);
+    }
+  }
+  return keys;
+}
+
+// History days before the analyzed range. A max_date_span_days policy covers
+// the history too, so it's shortened to fit; early points get a smaller baseline.
+function historyDays(params: AnomalyParams, analyzedRange: [string, string]): number {
+  const historyBuckets = params.window * seasonLength(params.interval, params.seasonal);
+  const days = params.interval === 'day' ? historyBuckets : Math.ceil(historyBuckets / 24);
+  if (maxDateSpanDays === undefined) return days;
+
+  const analyzedDays = daysBetween(parseIsoDate(analyzedRange[0]), parseIsoDate(analyzedRange[1])) + 1;
+  return Math.max(0, Math.min(days, maxDateSpanDays - analyzedDays));
+}
+
+// Fetch enough history before the analyzed range to give its first point a full baseline
+export function buildAnomalyPlan(params: AnomalyParams & { site_id: string }): AnomalyPlan {
+  const { interval, dimension } = params;
+  if (dimension?.startsWith('time') === true) {
+    throw new ValidationError(
+      `Dimension '${dimension}' cannot be used as the breakdown dimension`,
+      'The series is already split by time; use interval to choose between day and hour.'
+    );
+  }
+
+  const analyzedRange = resolveDateRange(params.date_range);
+  const historyStart = formatIsoDate(addDays(parseIsoDate(analyzedRange[0]), -historyDays(params, analyzedRange)));
+
+  return {
+    query: {
+      site_id: params.site_id,
+      metrics: [params.metric],
+      date_range: [historyStart, analyzedRange[1]],
+      dimensions: dimension === undefined ? [`time:${interval}`] : [`time:${interval}`, dimension],
+      filters: params.filters,
+      cache: params.cache,
+    },
+    analyzedRange,
+  };
+}
+
+// One series per breakdown value, keeping the largest ones by metric total
+function groupSeries(response: PlausibleApiResponse, params: AnomalyParams): Array<Series> {
+  const groups = new Map<string, Map<string, number>>();
+  for (const row of response.results) {
+    const [time = '', dimensionValue = ''] = row.dimensions;
+    const values = groups.get(dimensionValue) ?? new Map<string, number>();
+    values.set(bucketKey(params.interval, time), metricValue(row.metrics[0]) ?? 0);
+    groups.set(dimensionValue, values);
+  }
+
+  if (params.dimension === undefined) {
+    return [{ values: groups.get('') ?? new Map<string, number>() }];
+  }
+
+  const total = (values: Map<string, number>): number => [...values.values()].reduce((sum, v) => sum + v, 0);
+  return [...groups.entries()]
+    .sort(([, a], [, b]) => total(b) - total(a))
+    .slice(0, params.limit)
+    .map(([dimensionValue, values]) => ({ dimensionValue, values }));
+}
+
+// The current day, or the latest hour with data today, is still in progress
+// and would read as a drop; analysis stops before it
+function analysisCutoff(interval: Interval, series: Array<Series>): string {
+  const today = formatIsoDate(currentDate());
+  if (interval === 'day') return today;
+
+  const hoursToday = series.flatMap(s => [...s.values.keys()]).filter(key => key >= today).sort();
+  return hoursToday[hoursToday.length - 1] ?? today;
+}
+
+function median(values: Array<number>): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2
+    : sorted[mid] ?? 0;
+}
+
+function baselineStats(values: Array<number>, method: AnomalyParams['method']): { expected: number; spread: number } {
+  if (method === 'mad') {
+    const center = median(values);
+    return { expected: center, spread: MAD_SCALE * median(values.map(v => Math.abs(v - center))) };
+  }
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { expected: mean, spread: Math.sqrt(variance) };
+}
+
+function severity(score: number, threshold: number): Anomaly['severity'] {
+  const magnitude = Math.abs(score);
+  if (magnitude >= threshold * 2) return 'high';
+  if (magnitude >= threshold * 1.5) return 'medium';
+  return 'low';
+}
+
+// Up to `window` earlier comparable points that have data
+function baselineFor(values: Array<number | undefined>, index: number, params: AnomalyParams): Array<number> {
+  const period = seasonLength(params.interval, params.seasonal);
+  const baseline: Array<number> = [];
+  for (let j = index - period; j >= 0 && baseline.length < params.window; j -= period) {
+    const value = values[j];
+    if (value !== undefined) baseline.push(value);
+  }
+  return baseline;
+}
+
+function checkPoint(actual: number, baseline: Array<number>, params: AnomalyParams): Omit<Anomaly, 'date'> | undefined {
+  if (baseline.length < MIN_BASELINE_POINTS) return undefined;
+
+  // A spread floor of 1 keeps flat baselines from flagging every small wobble
+  const { expected, spread } = baselineStats(baseline, params.method);
+  const score = (actual - expected) / Math.max(spread, 1);
+  if (!Number.isFinite(score) || Math.abs(score) < params.threshold) return undefined;
+
+  return {
+    actual,
+    expected: round(expected, 2),
+    deviation_percent: expected === 0 ? null : round(((actual - expected) / expected) * 100, 1),
+    score: round(score, 2),
+    direction: score > 0 ? 'spike' : 'drop',
+    severity: severity(score, params.threshold),
+  };
+}
+
+function seriesAnomalies(series: Series, timeline: Timeline, params: AnomalyParams): Array<Anomaly> {
+  const { keys, firstIndex } = timeline;
+  const fill = countMetrics.includes(params.metric as CountMetric) ? 0 : undefined;
+  const values = keys.map(key => series.values.get(key) ?? fill);
+  const anomalies: Array<Anomaly> = [];
+
+  for (let i = firstIndex; i < keys.length; i++) {
+    const actual = values[i];
+    if (actual === undefined) continue;
+    const anomaly = checkPoint(actual, baselineFor(values, i, params), params);
+    if (anomaly === undefined) continue;
+    anomalies.push({
+      date: keys[i] ?? '',
+      ...(series.dimensionValue !== undefined ? { dimension_value: series.dimensionValue } : {}),
+      ...anomaly,
+    });
+  }
+  return anomalies;
+}
+
+export function detectAnomalies(
+  params: AnomalyParams,
+  plan: AnomalyPlan,
+  response: PlausibleApiResponse
+): AnomalyResponse {
+  const series = groupSeries(response, params);
+  const cutoff = analysisCutoff(params.interval, series);
+  const [historyStart] = plan.query.date_range as [string, string];
+  const keys = bucketKeys(params.interval, historyStart, plan.analyzedRange[1]).filter(key => key < cutoff);
+  const firstIndex = keys.findIndex(key => key >= plan.analyzedRange[0]);
+
+  const anomalies = firstIndex === -1
+    ? []
+    : series.flatMap(s => seriesAnomalies(s, { keys, firstIndex }, params));
+
+  return {
+    metric: params.metric,
+    interval: params.interval,
+    method: params.method,
+    analyzed_range: plan.analyzedRange,
+    baseline: { window: params.window, seasonal: params.seasonal, threshold: params.threshold },
+    series_checked: series.length,
+    anomalies: anomalies.sort((a, b) => Math.abs(b.score) - Math.abs(a.score)),
+    query: { ...plan.query, date_range: plan.analyzedRange },
+  };
+}
@@ -1,51 +1,213 @@
-import { plausibleApiUrl, plausibleApiKey } from "./constants.js";
+import { cacheTtlMs, canonicalizeQuery, responseCache } from "./cache.js";
+import { allCredentials, credentialsForSite } from "./credentials.js";
+import { parseRetryAfter, requestScheduler } from "./scheduler.js";
+import {
+  AuthenticationError,
+  InvalidQueryError,
+  NetworkTimeoutError,
+  PlausibleApiError,
+  RateLimitError,
+  SiteNotFoundError,
+  UpstreamError,
+} from "./types.js";
+import { debugLog } from "./utils.js";
 
-import type { PlausibleQuery, PlausibleApiResponse } from "./types.js";
+import type {
+  PlausibleQuery,
+  PlausibleApiResponse,
+  PlausibleSite,
+  PlausibleSitesResponse,
+  PlausibleGoal,
+  PlausibleGoalsResponse,
+  PlausibleSegment,
+  PlausibleSegmentsResponse,
+  PlausibleCustomPropsResponse,
+  QueryOptions,
+  SiteCredentials,
+  SitesApiMeta,
+} from "./types.js";
 
-// API query execution
+// Shared request helpers
+
+function authHeaders(apiKey: string): Record<string, string> {
+  return {
+    Authorization: `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorText = await response.text();
+  let errorMessage = `API request failed with status ${String(response.status)}`;
 
-export async function executeQuery(query: PlausibleQuery & {
-  debug?: boolean
-}): Promise<PlausibleApiResponse> {
-  const { debug: _debug, ...queryParams } = query;
-  
   try {
-    const response = await fetch(`${plausibleApiUrl}/query`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${plausibleApiKey ?? ""}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(queryParams),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `API request failed with status ${String(response.status)}`;
-      
-      try {
-        const errorJson = JSON.parse(errorText) as { error?: string };
-        if (errorJson.error !== undefined && errorJson.error !== '') {
-          errorMessage = errorJson.error;
-        }
-      } catch {
-        errorMessage = errorText !== '' ? errorText : errorMessage;
-      }
-      
-      throw new Error(errorMessage);
+    const errorJson = JSON.parse(errorText) as { error?: string };
+    if (errorJson.error !== undefined && errorJson.error !== '') {
+      errorMessage = errorJson.error;
     }
+  } catch {
+    errorMessage = errorText !== '' ? errorText : errorMessage;
+  }
 
-    const data = await response.json() as PlausibleApiResponse;
-    
-    // Include the original query in the response for reference
-    return {
-      ...data,
-      query: queryParams,
-    };
+  return errorMessage;
+}
+
+// Map a failed response onto the error hierarchy so callers can tell
+// permanent failures (auth, bad query) from transient ones
+export function classifyApiError(
+  status: number,
+  message: string,
+  retryAfter: string | null = null
+): PlausibleApiError {
+  if (status === 401 || status === 403) return new AuthenticationError(message, status);
+  if (status === 404 || /site does not exist/i.test(message)) return new SiteNotFoundError(message, status);
+  if (status === 429) return new RateLimitError(message, parseRetryAfter(retryAfter));
+  if (status >= 500) return new UpstreamError(message, status);
+  if (status === 400 || status === 422) return new InvalidQueryError(message);
+  return new PlausibleApiError(message, status);
+}
+
+async function apiErrorFromResponse(response: Response): Promise<PlausibleApiError> {
+  const retryAfter = response.headers.get('retry-after');
+  return classifyApiError(response.status, await readErrorMessage(response), retryAfter);
+}
+
+// Scheduled fetch; failures without any response become network errors
+async function request(input: string | URL, init: RequestInit): Promise<Response> {
+  try {
+    return await requestScheduler.fetch(input, init);
   } catch (error) {
-    if (error instanceof Error) {
-      throw error;
+    const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new NetworkTimeoutError(
+      isTimeout ? 'Request to Plausible timed out' : `Could not reach Plausible: ${reason}`
+    );
+  }
+}
+
+// API query execution
+
+async function fetchQuery(
+  queryParams: PlausibleQuery,
+  credentials: SiteCredentials
+): Promise<PlausibleApiResponse> {
+  const response = await request(`${credentials.apiUrl}/query`, {
+    method: 'POST',
+    headers: authHeaders(credentials.apiKey),
+    body: JSON.stringify(queryParams),
+  });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse(response);
+  }
+
+  const data = await response.json() as PlausibleApiResponse;
+  
+  // Include the original query in the response for reference
+  return {
+    ...data,
+    query: queryParams,
+  };
+}
+
+export async function executeQuery(query: PlausibleQuery & QueryOptions): Promise<PlausibleApiResponse> {
+  const { debug: _debug, cache = 'default', ...queryParams } = query;
+  const credentials = credentialsForSite(queryParams.site_id);
+
+  if (responseCache === null) {
+    return fetchQuery(queryParams, credentials);
+  }
+
+  const key = canonicalizeQuery(queryParams, credentials.apiUrl);
+  if (cache !== 'bypass') {
+    const hit = await responseCache.get(key);
+    if (hit !== undefined) {
+      debugLog("CACHE", "Cache hit", { site_id: queryParams.site_id });
+      return hit as PlausibleApiResponse;
     }
-    throw new Error('An unexpected error occurred');
   }
-}
\ No newline at end of file
+
+  // A bypass still refreshes the cached entry
+  const result = await fetchQuery(queryParams, credentials);
+  await responseCache.set(key, result, cacheTtlMs(queryParams.date_range));
+  return result;
+}
+
+// Sites API
+
+async function fetchSitesApi(url: URL, apiKey: string): Promise<unknown> {
+  const response = await request(url, { headers: authHeaders(apiKey) });
+  if (!response.ok) {
+    throw await apiErrorFromResponse(response);
+  }
+  return response.json();
+}
+
+async function fetchAllPages<TItem>(
+  url: URL,
+  apiKey: string,
+  select: (page: unknown) => Array<TItem>
+): Promise<Array<TItem>> {
+  const items: Array<TItem> = [];
+  let after: string | null = null;
+
+  do {
+    const pageUrl = new URL(url);
+    pageUrl.searchParams.set('limit', '100');
+    if (after !== null) pageUrl.searchParams.set('after', after);
+
+    const page = await fetchSitesApi(pageUrl, apiKey);
+    items.push(...select(page));
+    after = (page as { meta: SitesApiMeta }).meta.after;
+  } while (after !== null);
+
+  return items;
+}
+
+function sitesApiUrl(credentials: SiteCredentials, path: string, siteId?: string): URL {
+  const url = new URL(`${credentials.sitesApiUrl}${path}`);
+  if (siteId !== undefined) url.searchParams.set('site_id', siteId);
+  return url;
+}
+
+// Whether queries for a site will be sent with these credentials
+function usesCredentials(domain: string, credentials: SiteCredentials): boolean {
+  try {
+    const resolved = credentialsForSite(domain);
+    return resolved.apiKey === credentials.apiKey && resolved.sitesApiUrl === credentials.sitesApiUrl;
+  } catch {
+    return false;
+  }
+}
+
+// Sites across every configured account. Each site is listed under the
+// account its queries will actually use.
+export async function fetchSites(): Promise<Array<PlausibleSite>> {
+  const lists = await Promise.all(allCredentials().map(async credentials => {
+    const sites = await fetchAllPages(sitesApiUrl(credentials, ''), credentials.apiKey, page => (page as PlausibleSitesResponse).sites);
+    return sites.filter(site => usesCredentials(site.domain, credentials));
+  }));
+
+  const sites = new Map<string, PlausibleSite>();
+  for (const site of lists.flat()) {
+    if (!sites.has(site.domain)) sites.set(site.domain, site);
+  }
+  return [...sites.values()];
+}
+
+export async function fetchGoals(siteId: string): Promise<Array<PlausibleGoal>> {
+  const credentials = credentialsForSite(siteId);
+  return fetchAllPages(sitesApiUrl(credentials, '/goals', siteId), credentials.apiKey, page => (page as PlausibleGoalsResponse).goals);
+}
+
+export async function fetchSegments(siteId: string): Promise<Array<PlausibleSegment>> {
+  const credentials = credentialsForSite(siteId);
+  const response = await fetchSitesApi(sitesApiUrl(credentials, '/segments', siteId), credentials.apiKey) as PlausibleSegmentsResponse;
+  return response.segments;
+}
+
+export async function fetchCustomProperties(siteId: string): Promise<Array<string>> {
+  const credentials = credentialsForSite(siteId);
+  const response = await fetchSitesApi(sitesApiUrl(credentials, '/custom-props', siteId), credentials.apiKey) as PlausibleCustomPropsResponse;
+  return response.custom_properties.map(p => p.property);
+}
@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { cacheBackend, cacheDir } from "./constants.js";
+import { addDays, formatIsoDate, todayUtc } from "./dates.js";
+import { debugLog } from "./utils.js";
+
+import type { PlausibleQuery } from "./types.js";
+
+// Response cache for analytics queries
+
+type CacheRecord = {
+  expiresAt: number;
+  value: unknown;
+};
+
+export type ResponseCache = {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+};
+
+const MINUTE_MS = 60 * 1000;
+const TODAY_TTL_MS = MINUTE_MS;
+const RELATIVE_TTL_MS = 5 * MINUTE_MS;
+const CLOSED_RANGE_TTL_MS = 7 * 24 * 60 * MINUTE_MS;
+const MAX_MEMORY_ENTRIES = 500;
+
+export class MemoryCache implements ResponseCache {
+  private readonly entries = new Map<string, CacheRecord>();
+
+  get(key: string): Promise<unknown> {
+    const record = this.entries.get(key);
+    if (record === undefined) return Promise.resolve(undefined);
+    if (record.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(record.value);
+  }
+
+  set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    // Map preserves insertion order, so the first key is the oldest entry
+    if (this.entries.size >= MAX_MEMORY_ENTRIES) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done !== true) this.entries.delete(oldest.value);
+    }
+    this.entries.set(key, { expiresAt: Date.now() + ttlMs, value });
+    return Promise.resolve();
+  }
+}
+
+export class DiskCache implements ResponseCache {
+  constructor(private readonly directory: string) {}
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  async get(key: string): Promise<unknown> {
+    try {
+      const record = JSON.parse(await readFile(this.pathFor(key), "utf8")) as CacheRecord;
+      return record.expiresAt > Date.now() ? record.value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const record: CacheRecord = { expiresAt: Date.now() + ttlMs, value };
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(this.pathFor(key), JSON.stringify(record), "utf8");
+    } catch (error) {
+      debugLog("CACHE", "Failed to write disk cache entry", error);
+    }
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value !== "object" || value === null) return value;
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => [k, sortKeys(v)])
+  );
+}
+
+// Stable cache key: object key order and undefined fields don't matter
+export function canonicalizeQuery(query: PlausibleQuery, namespace = ""): string {
+  return `${namespace}|${JSON.stringify(sortKeys(query))}`;
+}
+
+// Relative ranges move with the clock, so they only get short TTLs. A custom
+// range that ended before yesterday (leaving a day of slack for site timezones
+// ahead of UTC) won't change anymore and can be kept much longer.
+export function cacheTtlMs(
+  dateRange: PlausibleQuery['date_range'],
+  today: Date = todayUtc()
+): number {
+  if (Array.isArray(dateRange)) {
+    const end = dateRange[1].slice(0, 10);
+    return end < formatIsoDate(addDays(today, -1)) ? CLOSED_RANGE_TTL_MS : RELATIVE_TTL_MS;
+  }
+  return dateRange === "day" ? TODAY_TTL_MS : RELATIVE_TTL_MS;
+}
+
+function createCache(): ResponseCache | null {
+  switch (cacheBackend) {
+    case "off":
+      return null;
+    case "disk":
+      return new DiskCache(cacheDir);
+    default:
+      return new MemoryCache();
+  }
+}
+
+export const responseCache = createCache();
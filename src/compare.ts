@@ -0,0 +1,116 @@
+import {
+  addDays,
+  addMonths,
+  daysBetween,
+  formatIsoDate,
+  parseIsoDate,
+  resolveDateRange,
+} from "./dates.js";
+import { ValidationError } from "./types.js";
+import { metricValue, round } from "./utils.js";
+
+import type {
+  CompareParams,
+  ComparisonResponse,
+  MetricComparison,
+  PlausibleApiResponse,
+  PlausibleQuery,
+} from "./types.js";
+
+// Period-over-period comparison helpers
+
+type ComparisonRow = ComparisonResponse['results'][number];
+
+export function resolveComparisonPeriod(
+  params: Pick<CompareParams, 'comparison' | 'comparison_date_range'>,
+  current: [string, string]
+): [string, string] {
+  const start = parseIsoDate(current[0]);
+  const end = parseIsoDate(current[1]);
+
+  switch (params.comparison) {
+    case 'previous_period': {
+      const length = daysBetween(start, end) + 1;
+      return [formatIsoDate(addDays(start, -length)), formatIsoDate(addDays(start, -1))];
+    }
+    case 'year_over_year':
+      return [formatIsoDate(addMonths(start, -12)), formatIsoDate(addMonths(end, -12))];
+    case 'custom':
+      if (params.comparison_date_range === undefined) {
+        throw new ValidationError(
+          "comparison_date_range is required when comparison is 'custom'",
+          'Provide the period to compare against as [start_date, end_date] in ISO8601 format (YYYY-MM-DD).'
+        );
+      }
+      return params.comparison_date_range;
+  }
+}
+
+export function buildComparisonQueries(
+  params: CompareParams & { site_id: string }
+): [PlausibleQuery, PlausibleQuery] {
+  const { comparison, comparison_date_range: comparisonDateRange, ...query } = params;
+
+  if (query.dimensions?.some(d => d.startsWith('time')) === true) {
+    throw new ValidationError(
+      'Time dimensions cannot be compared across periods',
+      'Rows are matched by dimension values, which never overlap between two time periods. Compare aggregate totals or non-time dimensions instead.'
+    );
+  }
+
+  const currentPeriod = resolveDateRange(query.date_range);
+  const comparisonPeriod = resolveComparisonPeriod(
+    { comparison, comparison_date_range: comparisonDateRange },
+    currentPeriod
+  );
+
+  return [
+    { ...query, date_range: currentPeriod },
+    { ...query, date_range: comparisonPeriod },
+  ];
+}
+
+export function compareMetric(current: number | null, previous: number | null): MetricComparison {
+  if (current === null || previous === null) {
+    return { current, previous, change: null, change_percent: null };
+  }
+
+  const change = current - previous;
+  return {
+    current,
+    previous,
+    change: round(change, 2),
+    change_percent: previous === 0 ? null : round((change / previous) * 100, 2),
+  };
+}
+
+// Match rows by their dimension tuple and compute per-metric deltas
+export function mergeComparison(
+  metrics: Array<string>,
+  current: PlausibleApiResponse,
+  previous: PlausibleApiResponse
+): Array<ComparisonRow> {
+  const previousByKey = new Map(previous.results.map(row => [JSON.stringify(row.dimensions), row]));
+  const currentKeys = new Set(current.results.map(row => JSON.stringify(row.dimensions)));
+
+  const buildRow = (
+    dimensions: Array<string>,
+    currentValues: Array<number> | undefined,
+    previousValues: Array<number> | undefined
+  ): ComparisonRow => ({
+    dimensions,
+    metrics: Object.fromEntries(metrics.map((metric, i) => [
+      metric,
+      compareMetric(metricValue(currentValues?.[i]), metricValue(previousValues?.[i])),
+    ])),
+  });
+
+  const rows = current.results.map(row =>
+    buildRow(row.dimensions, row.metrics, previousByKey.get(JSON.stringify(row.dimensions))?.metrics)
+  );
+  const droppedRows = previous.results
+    .filter(row => !currentKeys.has(JSON.stringify(row.dimensions)))
+    .map(row => buildRow(row.dimensions, undefined, row.metrics));
+
+  return [...rows, ...droppedRows];
+}
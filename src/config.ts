@@ -0,0 +1,365 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join, resolve } from "path";
+import { parseArgs } from "util";
+
+import { z } from "zod";
+
+// Layered configuration: CLI flags override plausible-mcp.config.json, which
+// overrides environment variables, which override the defaults below.
+
+export const transportModes = ["stdio", "http"] as const;
+export type TransportMode = typeof transportModes[number];
+
+export const cacheBackends = ["memory", "disk", "off"] as const;
+
+export const defaultConfigFile = "plausible-mcp.config.json";
+
+// One warehouse table: daily rows of these metrics, split by these dimensions
+const warehouseDatasetSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, "use lowercase letters, digits and underscores, starting with a letter"),
+  metrics: z.array(z.string().min(1)).min(1),
+  dimensions: z.array(z.string().min(1)).default([]),
+  sites: z.array(z.string().min(1)).optional(),
+}).strict();
+
+export type WarehouseDataset = z.infer<typeof warehouseDatasetSchema>;
+
+// Session metrics (bounce_rate, visit_duration, ...) can't be split by event
+// dimensions, so only the datasets without them include those
+const defaultWarehouseDatasets: Array<WarehouseDataset> = [
+  { name: "traffic", metrics: ["visitors", "visits", "pageviews", "events", "bounce_rate", "visit_duration"], dimensions: [] },
+  { name: "sources", metrics: ["visitors", "visits"], dimensions: ["visit:source"] },
+  { name: "pages", metrics: ["visitors", "pageviews"], dimensions: ["event:page"] },
+  { name: "countries", metrics: ["visitors", "visits"], dimensions: ["visit:country"] },
+];
+
+const configSchema = z.object({
+  api_url: z.string().url().default("https://plausible.io/api/v2"),
+  sites_api_url: z.string().url().optional(),
+  api_key: z.string().min(1).optional(),
+  sites_config: z.string().min(1).optional(),
+  default_site: z.string().min(1).optional(),
+  allowed_sites: z.array(z.string().min(1)).default([]),
+  denied_sites: z.array(z.string().min(1)).default([]),
+  policy: z.object({
+    blocked_dimensions: z.array(z.string().min(1)).default([]),
+    site_blocked_dimensions: z.record(z.array(z.string().min(1))).default({}),
+    max_date_span_days: z.coerce.number().int().positive().optional(),
+    max_pagination_limit: z.coerce.number().int().positive().optional(),
+  }).strict().default({}),
+  timezone: z.string().min(1).default("UTC"),
+  transport: z.enum(transportModes).default("stdio"),
+  cache: z.object({
+    backend: z.enum(cacheBackends).default("memory"),
+    dir: z.string().min(1).default(join(tmpdir(), "plausible-mcp-cache")),
+  }).strict().default({}),
+  rate_limit: z.object({
+    requests_per_hour: z.coerce.number().int().positive().default(600),
+    max_concurrency: z.coerce.number().int().positive().default(4),
+    max_retries: z.coerce.number().int().nonnegative().default(3),
+    timeout_ms: z.coerce.number().int().positive().default(30000),
+  }).strict().default({}),
+  auto_paginate_max_rows: z.coerce.number().int().positive().default(100000),
+  export_dir: z.string().min(1).default(join(tmpdir(), "plausible-mcp-exports")),
+  warehouse: z.object({
+    path: z.string().min(1).default(join(homedir(), ".plausible-mcp", "warehouse.db")),
+    sites: z.array(z.string().min(1)).default([]),
+    datasets: z.array(warehouseDatasetSchema).default(defaultWarehouseDatasets),
+    backfill_days: z.coerce.number().int().positive().default(365),
+    refresh_days: z.coerce.number().int().nonnegative().default(3),
+    chunk_days: z.coerce.number().int().positive().default(31),
+    sql_timeout_ms: z.coerce.number().int().positive().default(10000),
+  }).strict().default({}),
+  http: z.object({
+    host: z.string().min(1).default("127.0.0.1"),
+    port: z.coerce.number().int().min(0).max(65535).default(3000),
+    auth_token: z.string().min(1).optional(),
+    cors_origins: z.array(z.string().min(1)).default([]),
+    session_idle_timeout_ms: z.coerce.number().int().positive().default(30 * 60 * 1000),
+  }).strict().default({}),
+  log: z.object({
+    debug: z.boolean().default(false),
+  }).strict().default({}),
+}).strict();
+
+export type PlausibleConfig = z.infer<typeof configSchema>;
+
+export type ConfigSource = "cli" | "file" | "env" | "default";
+
+// A subcommand such as `report <definition>`, run instead of the server
+export type CliCommand = {
+  name: string;
+  args: Array<string>;
+  output?: string;
+  format?: string;
+};
+
+export type LoadedConfig = {
+  config: PlausibleConfig;
+  sources: Record<string, ConfigSource>;
+  file?: string;
+  printConfig: boolean;
+  command?: CliCommand;
+  errors: Array<string>;
+};
+
+type ConfigLayer = Record<string, unknown>;
+
+const secretKeys = new Set(["api_key", "http.auth_token"]);
+
+const cliOptions = {
+  config: { type: "string" },
+  "print-config": { type: "boolean" },
+  output: { type: "string", short: "o" },
+  format: { type: "string" },
+  "api-url": { type: "string" },
+  "sites-api-url": { type: "string" },
+  "api-key": { type: "string" },
+  "sites-config": { type: "string" },
+  "default-site": { type: "string" },
+  "allowed-sites": { type: "string" },
+  "denied-sites": { type: "string" },
+  "blocked-dimensions": { type: "string" },
+  "max-date-span-days": { type: "string" },
+  "max-pagination-limit": { type: "string" },
+  timezone: { type: "string" },
+  transport: { type: "string" },
+  cache: { type: "string" },
+  "cache-dir": { type: "string" },
+  "rate-limit": { type: "string" },
+  "max-concurrency": { type: "string" },
+  "max-retries": { type: "string" },
+  timeout: { type: "string" },
+  "auto-paginate-max-rows": { type: "string" },
+  "export-dir": { type: "string" },
+  "warehouse-path": { type: "string" },
+  "warehouse-sites": { type: "string" },
+  "backfill-days": { type: "string" },
+  host: { type: "string" },
+  port: { type: "string" },
+  "auth-token": { type: "string" },
+  "cors-origins": { type: "string" },
+  debug: { type: "boolean" },
+} as const;
+
+function isPlainObject(value: unknown): value is ConfigLayer {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function list(value: string | undefined): Array<string> | undefined {
+  return value?.split(",").map(item => item.trim()).filter(item => item !== "");
+}
+
+// Drop unset values so lower layers show through
+function compact(layer: ConfigLayer): ConfigLayer {
+  const result: ConfigLayer = {};
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined || value === "") continue;
+    if (isPlainObject(value)) {
+      const nested = compact(value);
+      if (Object.keys(nested).length > 0) result[key] = nested;
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function merge(lower: ConfigLayer, higher: ConfigLayer): ConfigLayer {
+  const result: ConfigLayer = { ...lower };
+  for (const [key, value] of Object.entries(higher)) {
+    const existing = result[key];
+    result[key] = isPlainObject(existing) && isPlainObject(value) ? merge(existing, value) : value;
+  }
+  return result;
+}
+
+function flatten(layer: ConfigLayer, prefix = ""): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(layer).flatMap(([key, value]) =>
+    isPlainObject(value) ? Object.entries(flatten(value, `${prefix}${key}.`)) : [[`${prefix}${key}`, value]]
+  ));
+}
+
+function envLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+  return compact({
+    api_url: env.PLAUSIBLE_API_URL,
+    sites_api_url: env.PLAUSIBLE_SITES_API_URL,
+    api_key: env.PLAUSIBLE_API_KEY,
+    sites_config: env.PLAUSIBLE_SITES_CONFIG,
+    default_site: env.PLAUSIBLE_DEFAULT_SITE,
+    allowed_sites: list(env.PLAUSIBLE_ALLOWED_SITES),
+    denied_sites: list(env.PLAUSIBLE_DENIED_SITES),
+    policy: {
+      blocked_dimensions: list(env.PLAUSIBLE_BLOCKED_DIMENSIONS),
+      max_date_span_days: env.PLAUSIBLE_MAX_DATE_SPAN_DAYS,
+      max_pagination_limit: env.PLAUSIBLE_MAX_PAGINATION_LIMIT,
+    },
+    timezone: env.PLAUSIBLE_TIMEZONE,
+    transport: env.PLAUSIBLE_MCP_TRANSPORT,
+    cache: { backend: env.PLAUSIBLE_CACHE, dir: env.PLAUSIBLE_CACHE_DIR },
+    rate_limit: {
+      requests_per_hour: env.PLAUSIBLE_RATE_LIMIT_PER_HOUR,
+      max_concurrency: env.PLAUSIBLE_MAX_CONCURRENCY,
+      max_retries: env.PLAUSIBLE_MAX_RETRIES,
+      timeout_ms: env.PLAUSIBLE_TIMEOUT,
+    },
+    auto_paginate_max_rows: env.PLAUSIBLE_AUTO_PAGINATE_MAX_ROWS,
+    export_dir: env.PLAUSIBLE_EXPORT_DIR,
+    warehouse: {
+      path: env.PLAUSIBLE_WAREHOUSE_PATH,
+      sites: list(env.PLAUSIBLE_WAREHOUSE_SITES),
+      backfill_days: env.PLAUSIBLE_WAREHOUSE_BACKFILL_DAYS,
+    },
+    http: {
+      host: env.PLAUSIBLE_MCP_HOST,
+      port: env.PLAUSIBLE_MCP_PORT,
+      auth_token: env.PLAUSIBLE_MCP_AUTH_TOKEN,
+      cors_origins: list(env.PLAUSIBLE_MCP_CORS_ORIGINS),
+      session_idle_timeout_ms: env.PLAUSIBLE_MCP_SESSION_IDLE_TIMEOUT,
+    },
+    log: { debug: env.DEBUG_STDIO === undefined ? undefined : env.DEBUG_STDIO === "true" },
+  });
+}
+
+type CliResult = {
+  layer: ConfigLayer;
+  printConfig: boolean;
+  configFile?: string;
+  command?: CliCommand;
+};
+
+function readCli(argv: Array<string>): CliResult {
+  const { values, positionals } = parseArgs({ args: argv, options: cliOptions, allowPositionals: true });
+  const layer = compact({
+    api_url: values["api-url"],
+    sites_api_url: values["sites-api-url"],
+    api_key: values["api-key"],
+    sites_config: values["sites-config"],
+    default_site: values["default-site"],
+    allowed_sites: list(values["allowed-sites"]),
+    denied_sites: list(values["denied-sites"]),
+    policy: {
+      blocked_dimensions: list(values["blocked-dimensions"]),
+      max_date_span_days: values["max-date-span-days"],
+      max_pagination_limit: values["max-pagination-limit"],
+    },
+    timezone: values.timezone,
+    transport: values.transport,
+    cache: { backend: values.cache, dir: values["cache-dir"] },
+    rate_limit: {
+      requests_per_hour: values["rate-limit"],
+      max_concurrency: values["max-concurrency"],
+      max_retries: values["max-retries"],
+      timeout_ms: values.timeout,
+    },
+    auto_paginate_max_rows: values["auto-paginate-max-rows"],
+    export_dir: values["export-dir"],
+    warehouse: {
+      path: values["warehouse-path"],
+      sites: list(values["warehouse-sites"]),
+      backfill_days: values["backfill-days"],
+    },
+    http: {
+      host: values.host,
+      port: values.port,
+      auth_token: values["auth-token"],
+      cors_origins: list(values["cors-origins"]),
+    },
+    log: { debug: values.debug },
+  });
+  const [name, ...args] = positionals;
+  const command = name !== undefined
+    ? { name, args, output: values.output, format: values.format }
+    : undefined;
+  return { layer, printConfig: values["print-config"] === true, configFile: values.config, command };
+}
+
+// An explicit --config/PLAUSIBLE_CONFIG path must exist; the default file is optional
+function configFilePath(explicit: string | undefined): string | undefined {
+  if (explicit !== undefined && explicit !== "") return resolve(explicit);
+  const fallback = resolve(defaultConfigFile);
+  return existsSync(fallback) ? fallback : undefined;
+}
+
+function readConfigFile(path: string): ConfigLayer {
+  const raw: unknown = JSON.parse(readFileSync(path, "utf8"));
+  if (!isPlainObject(raw)) {
+    throw new Error("expected a JSON object");
+  }
+  return raw;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sourceOf(key: string, layers: Array<[ConfigSource, Record<string, unknown>]>): ConfigSource {
+  const match = layers.find(([, flat]) => Object.keys(flat).some(k => k === key || k.startsWith(`${key}.`)));
+  return match?.[0] ?? "default";
+}
+
+export function loadConfig(argv: Array<string>, env: NodeJS.ProcessEnv): LoadedConfig {
+  const errors: Array<string> = [];
+
+  let cli: CliResult = { layer: {}, printConfig: false };
+  try {
+    cli = readCli(argv);
+  } catch (error) {
+    errors.push(errorMessage(error));
+  }
+
+  const file = configFilePath(cli.configFile ?? env.PLAUSIBLE_CONFIG);
+  let fromFile: ConfigLayer = {};
+  try {
+    if (file !== undefined) fromFile = readConfigFile(file);
+  } catch (error) {
+    errors.push(`Could not read config file ${file ?? ""}: ${errorMessage(error)}`);
+  }
+
+  const fromEnv = envLayer(env);
+  const layers: Array<[ConfigSource, Record<string, unknown>]> = [
+    ["cli", flatten(cli.layer)],
+    ["file", flatten(fromFile)],
+    ["env", flatten(fromEnv)],
+  ];
+
+  const parsed = configSchema.safeParse(merge(merge(fromEnv, fromFile), cli.layer));
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const key = issue.path.join(".");
+      errors.push(key === "" ? issue.message : `${key} (from ${sourceOf(key, layers)}): ${issue.message}`);
+    }
+  }
+
+  const config = parsed.success ? parsed.data : configSchema.parse({});
+  const sources = Object.fromEntries(
+    Object.keys(flatten(config)).map(key => [key, sourceOf(key, layers)])
+  );
+  return { config, sources, file, printConfig: cli.printConfig, command: cli.command, errors };
+}
+
+function mask(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  return value.length <= 4 ? "****" : `****${value.slice(-4)}`;
+}
+
+// Effective settings with secrets masked, for --print-config
+export function describeConfig(loaded: LoadedConfig): Record<string, unknown> {
+  const settings = Object.fromEntries(Object.entries(flatten(loaded.config)).map(([key, value]) =>
+    [key, { value: secretKeys.has(key) ? mask(value) : value, source: loaded.sources[key] ?? "default" }]
+  ));
+  return { config_file: loaded.file ?? null, settings };
+}
+
+// One line per setting that doesn't come from the defaults
+export function configReport(loaded: LoadedConfig): Array<string> {
+  const { settings } = describeConfig(loaded) as { settings: Record<string, { value: unknown; source: ConfigSource }> };
+  const lines = [`Configuration file: ${loaded.file ?? "none"}`];
+  for (const [key, { value, source }] of Object.entries(settings)) {
+    if (source !== "default") lines.push(`  ${key} = ${JSON.stringify(value)} (${source})`);
+  }
+  return lines;
+}
+
+export const loadedConfig = loadConfig(process.argv.slice(2), process.env);
@@ -1,7 +1,36 @@
-export const plausibleApiUrl =
-  process.env.PLAUSIBLE_API_URL ?? "https://plausible.io/api/v2";
-export const plausibleApiKey = process.env.PLAUSIBLE_API_KEY;
-export const debugStdio = process.env.DEBUG_STDIO === "true";
+import { loadedConfig } from "./config.js";
+
+// Effective settings, resolved from CLI flags, the config file and env (see config.ts)
+const { config } = loadedConfig;
+
+export const plausibleApiUrl = config.api_url;
+export const plausibleSitesApiUrl = config.sites_api_url;
+export const plausibleApiKey = config.api_key;
+export const sitesConfigPath = config.sites_config;
+export const defaultSiteId = config.default_site;
+export const allowedSites = config.allowed_sites;
+export const deniedSites = config.denied_sites;
+export const blockedDimensions = config.policy.blocked_dimensions;
+export const siteBlockedDimensions = config.policy.site_blocked_dimensions;
+export const maxDateSpanDays = config.policy.max_date_span_days;
+export const maxPaginationLimit = config.policy.max_pagination_limit;
+export const referenceTimezone = config.timezone;
+export const debugStdio = config.log.debug;
+export const cacheBackend = config.cache.backend;
+export const cacheDir = config.cache.dir;
+export const rateLimitPerHour = config.rate_limit.requests_per_hour;
+export const maxConcurrentRequests = config.rate_limit.max_concurrency;
+export const maxRequestRetries = config.rate_limit.max_retries;
+export const autoPaginateMaxRows = config.auto_paginate_max_rows;
+export const exportDir = config.export_dir;
+export const warehouseConfig = config.warehouse;
+export const requestTimeoutMs = config.rate_limit.timeout_ms;
+export const transportMode = config.transport;
+export const httpHost = config.http.host;
+export const httpPort = config.http.port;
+export const httpAuthToken = config.http.auth_token;
+export const httpCorsOrigins = config.http.cors_origins;
+export const httpSessionIdleTimeoutMs = config.http.session_idle_timeout_ms;
 
 export const predefinedDateRanges = [
   "day", "7d", "28d", "30d", "91d", "month", "6mo", "12mo", "year", "all"
@@ -31,10 +60,36 @@ export const timeDimensions = [
   "time", "time:hour", "time:day", "time:week", "time:month"
 ] as const;
 
+export const timeseriesIntervals = ["hour", "day", "week", "month"] as const;
+
+export const comparisonModes = ["previous_period", "year_over_year", "custom"] as const;
+
+export const funnelStepTypes = ["goal", "page"] as const;
+
+// Each funnel step costs one query
+export const maxFunnelSteps = 8;
+
+export const anomalyIntervals = ["day", "hour"] as const;
+
+export const anomalyMethods = ["zscore", "mad"] as const;
+
+export const anomalySeverities = ["low", "medium", "high"] as const;
+
+export const outputFormats = ["json", "markdown_table", "csv", "records"] as const;
+
+export const reportFormats = ["markdown", "html"] as const;
+
+export const exportFormats = ["csv", "jsonl"] as const;
+
+export const cacheModes = ["default", "bypass"] as const;
+
 export const filterOperators = [
   "is", "is_not", "contains", "contains_not", "matches", "matches_not"
 ] as const;
 
+// Operators that accept the { case_sensitive } filter modifier
+export const caseSensitiveOperators = ["is", "is_not", "contains", "contains_not"] as const;
+
 export const logicalOperators = ["and", "or", "not"] as const;
 
 export const behavioralOperators = ["has_done", "has_not_done"] as const;
@@ -49,6 +104,11 @@ export const metricsWithRequirements = {
   time_on_page: { requires: 'event:page', type: 'filter or dimension' }
 } as const;
 
+// Metrics where a missing row means zero; for rates and averages it means no data
+export const countMetrics = ["visitors", "visits", "pageviews", "events"] as const;
+
+export type CountMetric = typeof countMetrics[number];
+
 export const sessionMetrics = ['bounce_rate', 'views_per_visit', 'visit_duration'] as const;
 
 // Type derived from sessionMetrics
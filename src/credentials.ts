@@ -0,0 +1,124 @@
+import { readFileSync } from "fs";
+
+import { z } from "zod";
+
+import {
+  plausibleApiKey,
+  plausibleApiUrl,
+  plausibleSitesApiUrl,
+  sitesConfigPath,
+} from "./constants.js";
+import { ValidationError } from "./types.js";
+import { globToRegExp } from "./utils.js";
+
+import type { SiteCredentials } from "./types.js";
+
+// Per-site credentials. A JSON config file maps site domains or glob patterns
+// to API keys and base URLs; sites without a match use the PLAUSIBLE_API_* env.
+
+const siteEntrySchema = z.object({
+  match: z.string().min(1),
+  api_key: z.string().min(1).optional(),
+  api_key_env: z.string().min(1).optional(),
+  api_url: z.string().url().optional(),
+  sites_api_url: z.string().url().optional(),
+});
+
+const sitesConfigSchema = z.object({
+  sites: z.array(siteEntrySchema),
+});
+
+type SiteEntry = z.infer<typeof siteEntrySchema> & { pattern: RegExp };
+
+function loadSiteEntries(path: string | undefined): Array<SiteEntry> {
+  if (path === undefined || path === "") return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read sites config ${path}: ${reason}`);
+  }
+
+  const parsed = sitesConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid sites config ${path}: ${issues.join("; ")}`);
+  }
+  return parsed.data.sites.map(entry => ({ ...entry, pattern: globToRegExp(entry.match) }));
+}
+
+// Loaded on first use so a broken file is reported from main(), not at import
+let siteEntries: Array<SiteEntry> | undefined;
+
+function getSiteEntries(): Array<SiteEntry> {
+  siteEntries ??= loadSiteEntries(sitesConfigPath);
+  return siteEntries;
+}
+
+// The Sites API lives next to the Stats API on the same host
+function sitesApiUrlFor(apiUrl: string): string {
+  return new URL("/api/v1/sites", apiUrl).href;
+}
+
+// An entry without api_key or api_key_env shares the default key. An unset
+// api_key_env variable never falls back to it.
+function entryApiKey(entry: SiteEntry): string {
+  if (entry.api_key !== undefined) return entry.api_key;
+  if (entry.api_key_env !== undefined) return process.env[entry.api_key_env] ?? "";
+  return plausibleApiKey ?? "";
+}
+
+function entryCredentials(entry: SiteEntry): SiteCredentials {
+  const apiKey = entryApiKey(entry);
+  const apiUrl = entry.api_url ?? plausibleApiUrl;
+  const sitesApiUrl = entry.sites_api_url ??
+    (entry.api_url !== undefined ? sitesApiUrlFor(entry.api_url) : defaultSitesApiUrl());
+  return { apiKey, apiUrl, sitesApiUrl, match: entry.match };
+}
+
+// Without sites_api_url, the Sites API on the api_url host, so a self-hosted
+// key is never sent to plausible.io
+function defaultSitesApiUrl(): string {
+  return plausibleSitesApiUrl ?? sitesApiUrlFor(plausibleApiUrl);
+}
+
+const defaultCredentials: SiteCredentials = {
+  apiKey: plausibleApiKey ?? "",
+  apiUrl: plausibleApiUrl,
+  sitesApiUrl: defaultSitesApiUrl(),
+};
+
+export function hasSiteCredentials(): boolean {
+  return getSiteEntries().length > 0;
+}
+
+// Credentials for a site: the first matching config entry, else the env defaults
+export function credentialsForSite(siteId: string): SiteCredentials {
+  const entry = getSiteEntries().find(e => e.pattern.test(siteId));
+  const credentials = entry !== undefined ? entryCredentials(entry) : defaultCredentials;
+
+  if (credentials.apiKey === "") {
+    throw new ValidationError(
+      `No Plausible API key configured for site '${siteId}'`,
+      entry !== undefined
+        ? `The sites config entry '${entry.match}' has no api_key, and its api_key_env variable is unset.`
+        : "Add an entry for this site to the PLAUSIBLE_SITES_CONFIG file or set PLAUSIBLE_API_KEY."
+    );
+  }
+  return credentials;
+}
+
+// Every distinct account the server can talk to, for listing sites
+export function allCredentials(): Array<SiteCredentials> {
+  const candidates = [defaultCredentials, ...getSiteEntries().map(entryCredentials)];
+  const seen = new Set<string>();
+
+  return candidates.filter(credentials => {
+    const key = `${credentials.sitesApiUrl}\n${credentials.apiKey}`;
+    if (credentials.apiKey === "" || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,175 @@
+import { predefinedDateRanges, referenceTimezone } from "./constants.js";
+import {
+  addDays,
+  addMonths,
+  currentDate,
+  formatIsoDate,
+  parseIsoDate,
+  startOfMonth,
+} from "./dates.js";
+
+import type { PlausibleQuery, ResolvedDateRange } from "./types.js";
+
+// Natural-language date range expressions ("last week", "Q3 2025",
+// "since 2026-01-01", ...) resolved to explicit [start, end] dates
+
+type Resolver = {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray, today: Date) => [Date, Date];
+};
+
+const monthNames = [
+  "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"
+];
+
+function startOfWeek(date: Date): Date {
+  // ISO weeks start on Monday
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+function startOfQuarter(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), Math.floor(date.getUTCMonth() / 3) * 3, 1));
+}
+
+function endOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+}
+
+function quarter(year: number, q: number): [Date, Date] {
+  const start = new Date(Date.UTC(year, (q - 1) * 3, 1));
+  return [start, endOfMonth(addMonths(start, 2))];
+}
+
+function year(value: number): [Date, Date] {
+  return [new Date(Date.UTC(value, 0, 1)), new Date(Date.UTC(value, 11, 31))];
+}
+
+function month(yearValue: number, monthIndex: number): [Date, Date] {
+  if (monthIndex < 0 || monthIndex > 11) return [new Date(NaN), new Date(NaN)];
+  const start = new Date(Date.UTC(yearValue, monthIndex, 1));
+  return [start, endOfMonth(start)];
+}
+
+function toNumber(value: string | undefined): number {
+  return Number(value ?? "0");
+}
+
+const ISO_DATE = String.raw`(\d{4}-\d{2}-\d{2})`;
+
+// Impossible days roll over (2025-02-30 parses as 2025-03-02), so they're invalid instead
+function isoDate(value: string | undefined): Date {
+  const date = parseIsoDate(value ?? "");
+  return !Number.isNaN(date.getTime()) && formatIsoDate(date) === value ? date : new Date(NaN);
+}
+
+const resolvers: Array<Resolver> = [
+  { pattern: /^today$/, resolve: (_, today) => [today, today] },
+  { pattern: /^yesterday$/, resolve: (_, today) => [addDays(today, -1), addDays(today, -1)] },
+  {
+    pattern: /^(?:last|past|previous) (\d+) days?$/,
+    resolve: (m, today) => [addDays(today, -(toNumber(m[1]) - 1)), today],
+  },
+  {
+    pattern: /^(?:last|past|previous) (\d+) weeks?$/,
+    resolve: (m, today) => [addDays(today, -(toNumber(m[1]) * 7 - 1)), today],
+  },
+  {
+    pattern: /^(?:last|past|previous) (\d+) months?$/,
+    resolve: (m, today) => [addDays(addMonths(today, -toNumber(m[1])), 1), today],
+  },
+  { pattern: /^this week so far$/, resolve: (_, today) => [startOfWeek(today), today] },
+  { pattern: /^this week$/, resolve: (_, today) => [startOfWeek(today), addDays(startOfWeek(today), 6)] },
+  {
+    pattern: /^(?:last|previous) week$/,
+    resolve: (_, today) => [addDays(startOfWeek(today), -7), addDays(startOfWeek(today), -1)],
+  },
+  { pattern: /^(?:this month so far|month to date|mtd)$/, resolve: (_, today) => [startOfMonth(today), today] },
+  { pattern: /^this month$/, resolve: (_, today) => month(today.getUTCFullYear(), today.getUTCMonth()) },
+  {
+    pattern: /^(?:last|previous) month$/,
+    resolve: (_, today) => {
+      const previous = addMonths(startOfMonth(today), -1);
+      return month(previous.getUTCFullYear(), previous.getUTCMonth());
+    },
+  },
+  { pattern: /^this quarter so far$/, resolve: (_, today) => [startOfQuarter(today), today] },
+  {
+    pattern: /^this quarter$/,
+    resolve: (_, today) => quarter(today.getUTCFullYear(), Math.floor(today.getUTCMonth() / 3) + 1),
+  },
+  {
+    pattern: /^(?:last|previous) quarter$/,
+    resolve: (_, today) => {
+      const previous = addMonths(startOfQuarter(today), -3);
+      return quarter(previous.getUTCFullYear(), Math.floor(previous.getUTCMonth() / 3) + 1);
+    },
+  },
+  {
+    pattern: /^(?:this year so far|year to date|ytd)$/,
+    resolve: (_, today) => [new Date(Date.UTC(today.getUTCFullYear(), 0, 1)), today],
+  },
+  { pattern: /^this year$/, resolve: (_, today) => year(today.getUTCFullYear()) },
+  { pattern: /^(?:last|previous) year$/, resolve: (_, today) => year(today.getUTCFullYear() - 1) },
+  {
+    pattern: /^q([1-4])(?:\s+(\d{4}))?$/,
+    resolve: (m, today) => quarter(m[2] === undefined ? today.getUTCFullYear() : toNumber(m[2]), toNumber(m[1])),
+  },
+  { pattern: /^(\d{4})$/, resolve: m => year(toNumber(m[1])) },
+  { pattern: /^(\d{4})-(\d{2})$/, resolve: m => month(toNumber(m[1]), toNumber(m[2]) - 1) },
+  {
+    pattern: /^([a-z]+)\s+(\d{4})$/,
+    resolve: m => month(toNumber(m[2]), monthNames.indexOf((m[1] ?? "").slice(0, 3))),
+  },
+  {
+    pattern: new RegExp(`^(?:since|from) ${ISO_DATE}$`),
+    resolve: (m, today) => [isoDate(m[1]), today],
+  },
+  {
+    pattern: new RegExp(`^(?:from |between )?${ISO_DATE}\\s*(?:to|until|and|-|–|\\.\\.)\\s*${ISO_DATE}$`),
+    resolve: m => [isoDate(m[1]), isoDate(m[2])],
+  },
+  { pattern: new RegExp(`^${ISO_DATE}$`), resolve: m => [isoDate(m[1]), isoDate(m[1])] },
+];
+
+function isValidRange([start, end]: [Date, Date]): boolean {
+  return !Number.isNaN(start.getTime()) && !Number.isNaN(end.getTime()) && start <= end;
+}
+
+// Resolve a date range expression, or return undefined if it isn't one we understand
+export function parseDateExpression(
+  expression: string,
+  today: Date
+): [string, string] | undefined {
+  const normalized = expression.trim().toLowerCase().replace(/\s+/g, " ");
+
+  for (const { pattern, resolve } of resolvers) {
+    const match = normalized.match(pattern);
+    if (match === null) continue;
+
+    const range = resolve(match, today);
+    return isValidRange(range) ? [formatIsoDate(range[0]), formatIsoDate(range[1])] : undefined;
+  }
+  return undefined;
+}
+
+// Turn natural-language date ranges into explicit dates. Predefined ranges and
+// [start, end] tuples pass through untouched; unknown strings are left for
+// validateDateRange to reject.
+export function resolveDateExpression(
+  dateRange: PlausibleQuery['date_range'],
+  timezone: string = referenceTimezone
+): ResolvedDateRange | undefined {
+  if (Array.isArray(dateRange)) return undefined;
+  if (predefinedDateRanges.includes(dateRange as typeof predefinedDateRanges[number])) return undefined;
+
+  const today = currentDate(timezone);
+  const resolved = parseDateExpression(dateRange, today);
+  if (resolved === undefined) return undefined;
+
+  return {
+    expression: dateRange,
+    date_range: resolved,
+    timezone,
+    reference_date: formatIsoDate(today),
+  };
+}
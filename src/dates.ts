@@ -0,0 +1,95 @@
+import { referenceTimezone } from "./constants.js";
+import { ValidationError } from "./types.js";
+
+import type { PlausibleQuery } from "./types.js";
+
+// Calendar helpers for resolving date ranges to concrete [start, end] dates.
+// All arithmetic is done on UTC midnight dates so DST never shifts a day.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function parseIsoDate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+export function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
+
+export function daysBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export function todayUtc(): Date {
+  return parseIsoDate(new Date().toISOString());
+}
+
+// Today's calendar date in the given timezone, as a UTC midnight date
+export function currentDate(timezone: string = referenceTimezone): Date {
+  try {
+    const formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    return parseIsoDate(formatter.format(new Date()));
+  } catch {
+    throw new ValidationError(
+      `Invalid timezone: ${timezone}`,
+      'Set PLAUSIBLE_TIMEZONE to an IANA timezone name such as "Europe/Berlin" or "America/New_York".'
+    );
+  }
+}
+
+const lastNDays: Partial<Record<string, number>> = { "7d": 7, "28d": 28, "30d": 30, "91d": 91 };
+const lastNMonths: Partial<Record<string, number>> = { "6mo": 6, "12mo": 12 };
+
+// Resolve a predefined or custom date range to explicit ISO dates (inclusive)
+export function resolveDateRange(
+  dateRange: PlausibleQuery['date_range'],
+  today: Date = currentDate()
+): [string, string] {
+  if (Array.isArray(dateRange)) {
+    return [dateRange[0].slice(0, 10), dateRange[1].slice(0, 10)];
+  }
+
+  const days = lastNDays[dateRange];
+  if (days !== undefined) {
+    return [formatIsoDate(addDays(today, -(days - 1))), formatIsoDate(today)];
+  }
+
+  const months = lastNMonths[dateRange];
+  if (months !== undefined) {
+    return [formatIsoDate(startOfMonth(addMonths(today, -(months - 1)))), formatIsoDate(today)];
+  }
+
+  switch (dateRange) {
+    case 'day':
+      return [formatIsoDate(today), formatIsoDate(today)];
+    case 'month':
+      return [formatIsoDate(startOfMonth(today)), formatIsoDate(today)];
+    case 'year':
+      return [`${String(today.getUTCFullYear())}-01-01`, formatIsoDate(today)];
+    default:
+      throw new ValidationError(
+        `Date range '${dateRange}' cannot be resolved to explicit dates`,
+        'Use a bounded predefined range (e.g. 7d, month, 12mo) or a custom [start_date, end_date] range.'
+      );
+  }
+}
@@ -0,0 +1,128 @@
+import { executeQuery, fetchCustomProperties, fetchGoals, fetchSegments } from "./api.js";
+import { collectFilterDimensions, collectGoalNames, collectSegmentIds } from "./filters.js";
+import { debugLog } from "./utils.js";
+
+import type {
+  PlausibleQuery,
+  PlausibleSegment,
+  PropertyValue,
+  SiteCatalog,
+  SiteGoals,
+  SiteProperties,
+} from "./types.js";
+
+// Goal, custom property and segment discovery, cached per site
+
+const CATALOG_TTL_MS = 10 * 60 * 1000;
+
+type CacheEntry<TValue> = {
+  expiresAt: number;
+  value: Promise<TValue>;
+};
+
+const goalsCache = new Map<string, CacheEntry<SiteGoals>>();
+const propertiesCache = new Map<string, CacheEntry<SiteProperties>>();
+const segmentsCache = new Map<string, CacheEntry<Array<PlausibleSegment>>>();
+
+function cached<TValue>(
+  cache: Map<string, CacheEntry<TValue>>,
+  siteId: string,
+  load: () => Promise<TValue>
+): Promise<TValue> {
+  const entry = cache.get(siteId);
+  if (entry !== undefined && entry.expiresAt > Date.now()) {
+    return entry.value;
+  }
+
+  const value = load();
+  cache.set(siteId, { expiresAt: Date.now() + CATALOG_TTL_MS, value });
+  // Don't keep failed lookups around
+  value.catch(() => cache.delete(siteId));
+  return value;
+}
+
+async function loadGoals(siteId: string): Promise<SiteGoals> {
+  try {
+    const details = await fetchGoals(siteId);
+    return { source: "sites_api", goals: details.map(g => g.display_name), details };
+  } catch (error) {
+    debugLog("DISCOVERY", "Goals endpoint unavailable, falling back to event:goal breakdown", error);
+  }
+
+  // Only goals with at least one conversion show up in a breakdown
+  const response = await executeQuery({
+    site_id: siteId,
+    metrics: ["visitors"],
+    date_range: "all",
+    dimensions: ["event:goal"],
+    pagination: { limit: 1000 },
+  });
+  return { source: "query", goals: response.results.flatMap(row => row.dimensions) };
+}
+
+async function loadProperties(siteId: string): Promise<SiteProperties> {
+  try {
+    return { source: "sites_api", properties: await fetchCustomProperties(siteId) };
+  } catch (error) {
+    debugLog("DISCOVERY", "Custom properties endpoint unavailable", error);
+    return { source: "unavailable", properties: [] };
+  }
+}
+
+export function getSiteGoals(siteId: string): Promise<SiteGoals> {
+  return cached(goalsCache, siteId, () => loadGoals(siteId));
+}
+
+export function getSiteProperties(siteId: string): Promise<SiteProperties> {
+  return cached(propertiesCache, siteId, () => loadProperties(siteId));
+}
+
+export function getSiteSegments(siteId: string): Promise<Array<PlausibleSegment>> {
+  return cached(segmentsCache, siteId, () => fetchSegments(siteId));
+}
+
+// Top values of a single custom property, via an event:props breakdown
+export async function getPropertyValues(
+  siteId: string,
+  property: string,
+  dateRange: PlausibleQuery['date_range'] = "30d"
+): Promise<Array<PropertyValue>> {
+  const response = await executeQuery({
+    site_id: siteId,
+    metrics: ["visitors"],
+    date_range: dateRange,
+    dimensions: [`event:props:${property}`],
+    pagination: { limit: 100 },
+  });
+  return response.results.map(row => ({
+    value: row.dimensions[0] ?? "",
+    visitors: row.metrics[0] ?? 0,
+  }));
+}
+
+// Load only the parts of the catalog a query refers to. Lookups that fail, or
+// goal lists inferred from a breakdown, never block a query.
+export async function loadSiteCatalog(query: PlausibleQuery): Promise<SiteCatalog> {
+  const usesGoals = collectGoalNames(query.filters).length > 0;
+  const usesProperties = [...(query.dimensions ?? []), ...collectFilterDimensions(query.filters)]
+    .some(d => d.startsWith("event:props:"));
+  const usesSegments = collectSegmentIds(query.filters).length > 0;
+
+  const catalog: SiteCatalog = {};
+  try {
+    if (usesGoals) {
+      const goals = await getSiteGoals(query.site_id);
+      if (goals.source === "sites_api") catalog.goals = goals.goals;
+    }
+    if (usesProperties) {
+      const properties = await getSiteProperties(query.site_id);
+      if (properties.source === "sites_api") catalog.properties = properties.properties;
+    }
+    if (usesSegments) {
+      catalog.segments = await getSiteSegments(query.site_id);
+    }
+  } catch (error) {
+    debugLog("DISCOVERY", "Site catalog lookup failed, skipping catalog validation", error);
+  }
+  return catalog;
+}
@@ -0,0 +1,47 @@
+import { readFile } from "fs/promises";
+import { extname, resolve } from "path";
+
+import { parse as parseYaml } from "yaml";
+
+import { exportParamsSchema, PlausibleClient } from "./plausible-client.js";
+
+import type { CliCommand } from "./config.js";
+import type { ExportParams } from "./types.js";
+
+// `export <query.yaml|json> [--output path] [--format csv|jsonl]`: the CLI
+// side of plausible_export. The query file takes plausible_export's arguments.
+
+function formatFromOutput(output: string | undefined): string | undefined {
+  if (output === undefined) return undefined;
+  const extension = extname(output).toLowerCase();
+  return extension === ".jsonl" || extension === ".ndjson" ? "jsonl" : undefined;
+}
+
+// The format comes from --format, then the query file, then the output extension
+async function loadExportQuery(path: string, command: CliCommand): Promise<ExportParams> {
+  const raw: unknown = parseYaml(await readFile(resolve(path), "utf8"));
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid export query ${path}: expected an object with plausible_export arguments`);
+  }
+  const format = command.format ?? (raw as { format?: string }).format ?? formatFromOutput(command.output);
+  const parsed = exportParamsSchema.safeParse({ ...raw, format });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid export query ${path}: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export async function runExportCommand(command: CliCommand): Promise<void> {
+  const [queryPath] = command.args;
+  if (queryPath === undefined) {
+    throw new Error("Usage: mcp-plausible export <query.yaml> [--output <path>] [--format csv|jsonl]");
+  }
+
+  const summary = await new PlausibleClient().exportQuery(await loadExportQuery(queryPath, command), command.output);
+  const destination = summary.path === "-" ? "stdout" : summary.path;
+  console.error(`Exported ${String(summary.rows)} rows (${String(summary.bytes)} bytes) to ${destination}`);
+  if (summary.truncated) {
+    console.error(`Warning: rows beyond the row ceiling were left out (${String(summary.total_rows ?? "unknown")} in total); raise --auto-paginate-max-rows or max_rows`);
+  }
+}
@@ -0,0 +1,90 @@
+import { createWriteStream } from "fs";
+import { mkdir, rename, rm } from "fs/promises";
+import { dirname, extname, join, resolve } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+import { exportDir } from "./constants.js";
+import { csvHeader, csvRow, rawRecord, tableFromResponse } from "./formatting.js";
+import { ValidationError } from "./types.js";
+
+import type { ResultTable } from "./formatting.js";
+import type { ExportFormat, ExportSummary, PlausibleApiResponse } from "./types.js";
+
+// Exports: stream a query's labeled rows to a CSV or JSONL file and report
+// where they went, so large results never pass through the model's context
+
+const safeFilename = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// Tool exports always land in the export directory; a filename can't point outside it
+export function exportPath(siteId: string, format: ExportFormat, filename?: string): string {
+  const directory = resolve(exportDir);
+  if (filename === undefined || filename === "") {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    return join(directory, `${slug(siteId)}-${stamp}.${format}`);
+  }
+  if (!safeFilename.test(filename)) {
+    throw new ValidationError(
+      `Invalid export filename '${filename}'`,
+      "Use a plain file name such as pages-2025.csv, without directories. Exports are always written to the export directory."
+    );
+  }
+  return join(directory, extname(filename) === "" ? `${filename}.${format}` : filename);
+}
+
+function* exportLines(table: ResultTable, format: ExportFormat): Generator<string> {
+  if (format === "csv") yield csvHeader(table);
+  for (const row of table.rows) {
+    yield format === "csv" ? csvRow(table, row) : JSON.stringify(rawRecord(table, row));
+  }
+}
+
+function* terminated(lines: Iterable<string>, counter: { bytes: number }): Generator<string> {
+  for (const line of lines) {
+    const text = `${line}\n`;
+    counter.bytes += Buffer.byteLength(text);
+    yield text;
+  }
+}
+
+// Rows go through a temporary file, so a failed export never leaves a
+// truncated file under the final name. "-" writes to stdout.
+export async function writeExport(
+  response: PlausibleApiResponse,
+  format: ExportFormat,
+  path: string
+): Promise<ExportSummary> {
+  const table = tableFromResponse(response);
+  const counter = { bytes: 0 };
+  const source = Readable.from(terminated(exportLines(table, format), counter));
+
+  if (path === "-") {
+    await pipeline(source, process.stdout, { end: false });
+  } else {
+    await mkdir(dirname(path), { recursive: true });
+    const partial = `${path}.partial`;
+    try {
+      await pipeline(source, createWriteStream(partial));
+      await rename(partial, path);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  const totalRows = response.meta?.total_rows;
+  return {
+    path,
+    format,
+    rows: table.rows.length,
+    columns: table.columns.map(column => column.name),
+    bytes: counter.bytes,
+    ...(totalRows !== undefined ? { total_rows: totalRows } : {}),
+    truncated: response.meta?.truncated === true,
+    query: response.query,
+  };
+}
@@ -1,4 +1,4 @@
-import type { FilterType, SimpleFilter, BehavioralFilter } from "./types.js";
+import type { FilterType, SimpleFilter, BehavioralFilter, SegmentFilter } from "./types.js";
 
 // Filter helper functions
 
@@ -12,6 +12,10 @@ export function checkBehavioralFilter(filter: BehavioralFilter, dimension: strin
   return dimension === `event:${type}`;
 }
 
+export function isSegmentFilter(filter: FilterType): filter is SegmentFilter {
+  return filter[0] === 'is' && filter[1] === 'segment';
+}
+
 export function checkSingleFilter(filter: FilterType, dimension: string): boolean {
   if (!Array.isArray(filter)) return false;
   
@@ -21,8 +25,11 @@ export function checkSingleFilter(filter: FilterType, dimension: string): boolea
     return nestedFilters.some(f => checkSingleFilter(f, dimension));
   }
   
-  // Check if it's a 3-element filter
-  if (filter.length === 3) {
+  // Segment filters ["is", "segment", [ids]] don't expose their dimensions
+  if (isSegmentFilter(filter)) return false;
+  
+  // Check if it's a 3-element filter, or 4 with modifiers
+  if (filter.length === 3 || filter.length === 4) {
     // Check if it's a behavioral filter [operator, type, value]
     if (filter[0] === 'has_done' || filter[0] === 'has_not_done') {
       return checkBehavioralFilter(filter as BehavioralFilter, dimension);
@@ -44,4 +51,58 @@ export function hasFilterForDimension(
   if (filters === undefined || dimension === undefined || dimension === '') return false;
   
   return filters.some(filter => checkSingleFilter(filter, dimension));
-}
\ No newline at end of file
+}
+export function collectFilterDimensions(filters?: Array<FilterType>): Array<string> {
+  if (filters === undefined) return [];
+
+  return filters.flatMap((filter): Array<string> => {
+    if (filter.length === 2 && Array.isArray(filter[1])) {
+      return collectFilterDimensions(filter[1]);
+    }
+    if (filter[0] === 'has_done' || filter[0] === 'has_not_done' || isSegmentFilter(filter)) {
+      return [];
+    }
+    return typeof filter[0] === 'string' ? [filter[0]] : [];
+  });
+}
+
+export type GoalReference = {
+  name: string;
+  // false when the filter carries {"case_sensitive": false}
+  caseSensitive: boolean;
+};
+
+// contains/matches values are patterns, not goal names
+function goalFilterValues(filter: FilterType): Array<GoalReference> {
+  if (filter[1] !== 'is' && filter[1] !== 'is_not') return [];
+  const caseSensitive = filter[3]?.case_sensitive !== false;
+  const value = filter[2];
+  return (Array.isArray(value) ? value.map(String) : [String(value)]).map(name => ({ name, caseSensitive }));
+}
+
+// Goal names referenced by event:goal is/is_not filters and has_done/has_not_done goal filters
+export function collectGoalNames(filters?: Array<FilterType>): Array<GoalReference> {
+  if (filters === undefined) return [];
+
+  return filters.flatMap((filter): Array<GoalReference> => {
+    if (filter.length === 2 && Array.isArray(filter[1])) {
+      return collectGoalNames(filter[1]);
+    }
+    if (filter[0] === 'has_done' || filter[0] === 'has_not_done') {
+      return filter[1] === 'goal' && typeof filter[2] === 'string' ? [{ name: filter[2], caseSensitive: true }] : [];
+    }
+    return filter[0] === 'event:goal' ? goalFilterValues(filter) : [];
+  });
+}
+
+// Saved segment IDs referenced by ["is", "segment", [ids]] filters
+export function collectSegmentIds(filters?: Array<FilterType>): Array<number> {
+  if (filters === undefined) return [];
+
+  return filters.flatMap((filter): Array<number> => {
+    if (filter.length === 2 && Array.isArray(filter[1])) {
+      return collectSegmentIds(filter[1]);
+    }
+    return isSegmentFilter(filter) ? filter[2] : [];
+  });
+}
@@ -0,0 +1,382 @@
+import type {
+  AnomalyResponse,
+  ComparisonResponse,
+  FunnelResponse,
+  MoverRow,
+  OutputFormat,
+  PlausibleApiResponse,
+  SqlResponse,
+  TopMoversResponse,
+} from "./types.js";
+
+// Result formatting: label the parallel dimensions/metrics arrays and render them
+
+type ColumnKind = 'dimension' | 'value' | 'change' | 'change_percent';
+
+type Column = {
+  name: string;
+  kind: ColumnKind;
+  metric?: string;
+};
+
+export type ResultTable = {
+  columns: Array<Column>;
+  rows: Array<Array<unknown>>;
+};
+
+const percentMetrics = new Set([
+  'bounce_rate', 'conversion_rate', 'group_conversion_rate', 'percentage', 'scroll_depth'
+]);
+const durationMetrics = new Set(['visit_duration', 'time_on_page']);
+const revenueMetrics = new Set(['average_revenue', 'total_revenue']);
+
+type RevenueValue = { value: number; currency: string };
+
+function isRevenueValue(value: unknown): value is RevenueValue {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Partial<RevenueValue>).value === 'number'
+    && typeof (value as Partial<RevenueValue>).currency === 'string';
+}
+
+function formatDuration(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '';
+  const total = Math.round(Math.abs(seconds));
+  const minutes = Math.floor(total / 60);
+  const rest = total % 60;
+  return `${sign}${String(minutes)}:${String(rest).padStart(2, '0')}`;
+}
+
+function formatCurrency(value: number, currency = 'USD'): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+}
+
+function formatNumber(metric: string, value: number): string {
+  if (percentMetrics.has(metric)) return `${String(value)}%`;
+  if (durationMetrics.has(metric)) return formatDuration(value);
+  if (revenueMetrics.has(metric)) return formatCurrency(value);
+  return String(value);
+}
+
+export function formatMetricValue(metric: string, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (isRevenueValue(value)) return formatCurrency(value.value, value.currency);
+  if (typeof value === 'number') return formatNumber(metric, value);
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function rawCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (isRevenueValue(value)) return String(value.value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value as string | number | boolean);
+}
+
+function formatCell(column: Column, value: unknown): string {
+  if (column.metric === undefined) return rawCell(value);
+  if (typeof value !== 'number') return formatMetricValue(column.metric, value);
+  if (column.kind === 'change_percent') return `${value > 0 ? '+' : ''}${String(value)}%`;
+
+  const formatted = formatMetricValue(column.metric, value);
+  return column.kind === 'change' && value > 0 ? `+${formatted}` : formatted;
+}
+
+export function tableFromResponse(response: PlausibleApiResponse): ResultTable {
+  const dimensions = response.query.dimensions ?? [];
+  return {
+    columns: [
+      ...dimensions.map(name => ({ name, kind: 'dimension' as const })),
+      ...response.query.metrics.map(metric => ({ name: metric, kind: 'value' as const, metric })),
+    ],
+    rows: response.results.map(row => [...row.dimensions, ...row.metrics]),
+  };
+}
+
+export function tableFromComparison(response: ComparisonResponse): ResultTable {
+  const dimensions = response.query.dimensions ?? [];
+  const { metrics } = response.query;
+  return {
+    columns: [
+      ...dimensions.map(name => ({ name, kind: 'dimension' as const })),
+      ...metrics.flatMap(metric => [
+        { name: metric, kind: 'value' as const, metric },
+        { name: `${metric}_previous`, kind: 'value' as const, metric },
+        { name: `${metric}_change`, kind: 'change' as const, metric },
+        { name: `${metric}_change_percent`, kind: 'change_percent' as const, metric },
+      ]),
+    ],
+    rows: response.results.map(row => [
+      ...row.dimensions,
+      ...metrics.flatMap(metric => {
+        const comparison = row.metrics[metric];
+        return [comparison?.current, comparison?.previous, comparison?.change, comparison?.change_percent];
+      }),
+    ]),
+  };
+}
+
+// Rates reuse conversion_rate and counts reuse visitors for value formatting
+export function tableFromFunnel(response: FunnelResponse): ResultTable {
+  return {
+    columns: [
+      { name: 'step', kind: 'dimension' },
+      { name: 'type', kind: 'dimension' },
+      { name: 'value', kind: 'dimension' },
+      { name: 'visitors', kind: 'value', metric: 'visitors' },
+      { name: 'conversion_rate', kind: 'value', metric: 'conversion_rate' },
+      { name: 'overall_conversion_rate', kind: 'value', metric: 'conversion_rate' },
+      { name: 'drop_off', kind: 'value', metric: 'visitors' },
+      { name: 'drop_off_rate', kind: 'value', metric: 'conversion_rate' },
+    ],
+    rows: response.results.map(row => [
+      row.step,
+      row.type,
+      row.value,
+      row.visitors,
+      row.conversion_rate,
+      row.overall_conversion_rate,
+      row.drop_off,
+      row.drop_off_rate,
+    ]),
+  };
+}
+
+export function tableFromAnomalies(response: AnomalyResponse): ResultTable {
+  const { metric } = response;
+  const dimension = response.query.dimensions?.[1];
+  return {
+    columns: [
+      { name: 'date', kind: 'dimension' },
+      ...(dimension !== undefined ? [{ name: dimension, kind: 'dimension' as const }] : []),
+      { name: 'actual', kind: 'value', metric },
+      { name: 'expected', kind: 'value', metric },
+      { name: 'deviation_percent', kind: 'change_percent', metric },
+      { name: 'score', kind: 'dimension' },
+      { name: 'direction', kind: 'dimension' },
+      { name: 'severity', kind: 'dimension' },
+    ],
+    rows: response.anomalies.map(anomaly => [
+      anomaly.date,
+      ...(dimension !== undefined ? [anomaly.dimension_value] : []),
+      anomaly.actual,
+      anomaly.expected,
+      anomaly.deviation_percent,
+      anomaly.score,
+      anomaly.direction,
+      anomaly.severity,
+    ]),
+  };
+}
+
+// All four lists in one table, told apart by the list column
+export function tableFromTopMovers(response: TopMoversResponse): ResultTable {
+  const { metric } = response;
+  const lists: Array<[string, Array<MoverRow>]> = [
+    ['absolute_change', response.by_absolute_change],
+    ['relative_change', response.by_relative_change],
+    ['new', response.new_entries],
+    ['dropped', response.dropped_entries],
+  ];
+  return {
+    columns: [
+      { name: 'list', kind: 'dimension' },
+      { name: response.dimension, kind: 'dimension' },
+      { name: metric, kind: 'value', metric },
+      { name: `${metric}_previous`, kind: 'value', metric },
+      { name: `${metric}_change`, kind: 'change', metric },
+      { name: `${metric}_change_percent`, kind: 'change_percent', metric },
+      { name: 'contribution_percent', kind: 'value', metric: 'conversion_rate' },
+    ],
+    rows: lists.flatMap(([list, rows]) => rows.map(row => [
+      list,
+      row.value,
+      row.current,
+      row.previous,
+      row.change,
+      row.change_percent,
+      row.contribution_percent,
+    ])),
+  };
+}
+
+// Columns holding numbers are right-aligned like metrics, but keep raw values
+export function tableFromSql(response: SqlResponse): ResultTable {
+  const isNumeric = (index: number): boolean => response.rows.some(row => typeof row[index] === 'number');
+  return {
+    columns: response.columns.map((name, i) => ({ name, kind: isNumeric(i) ? 'value' as const : 'dimension' as const })),
+    rows: response.rows,
+  };
+}
+
+type FormattableResponse =
+  | PlausibleApiResponse
+  | ComparisonResponse
+  | FunnelResponse
+  | AnomalyResponse
+  | TopMoversResponse
+  | SqlResponse;
+
+function tableFor(response: FormattableResponse): ResultTable {
+  if ('sql' in response) return tableFromSql(response);
+  if ('by_absolute_change' in response) return tableFromTopMovers(response);
+  if ('current_period' in response) return tableFromComparison(response);
+  if ('overall_conversion_rate' in response) return tableFromFunnel(response);
+  if ('anomalies' in response) return tableFromAnomalies(response);
+  return tableFromResponse(response);
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function renderMarkdownTable(table: ResultTable): string {
+  if (table.rows.length === 0) return '_No results_';
+
+  const header = `| ${table.columns.map(c => escapeMarkdown(c.name)).join(' | ')} |`;
+  const separator = `| ${table.columns.map(c => (c.kind === 'dimension' ? '---' : '---:')).join(' | ')} |`;
+  const rows = table.rows.map(row =>
+    `| ${table.columns.map((column, i) => escapeMarkdown(formatCell(column, row[i]))).join(' | ')} |`
+  );
+  return [header, separator, ...rows].join('\n');
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderHtmlTable(table: ResultTable): string {
+  if (table.rows.length === 0) return '<p><em>No results</em></p>';
+
+  const cell = (tag: 'th' | 'td', column: Column, text: string): string =>
+    `<${tag}${column.kind === 'dimension' ? '' : ' class="num"'}>${escapeHtml(text)}</${tag}>`;
+  const header = table.columns.map(column => cell('th', column, column.name)).join('');
+  const rows = table.rows.map(row =>
+    `<tr>${table.columns.map((column, i) => cell('td', column, formatCell(column, row[i]))).join('')}</tr>`
+  );
+  return ['<table>', `<thead><tr>${header}</tr></thead>`, '<tbody>', ...rows, '</tbody>', '</table>'].join('\n');
+}
+
+export function csvHeader(table: ResultTable): string {
+  return table.columns.map(c => escapeCsv(c.name)).join(',');
+}
+
+export function csvRow(table: ResultTable, row: Array<unknown>): string {
+  return table.columns.map((_, i) => escapeCsv(rawCell(row[i]))).join(',');
+}
+
+// CSV keeps raw values so the output stays machine-readable
+export function renderCsv(table: ResultTable): string {
+  return [csvHeader(table), ...table.rows.map(row => csvRow(table, row))].join('\n');
+}
+
+// One object per row with typed values: numbers stay numbers and revenue
+// becomes its amount, so every row has the same column types
+function typedCell(value: unknown): string | number | null {
+  if (isRevenueValue(value)) return value.value;
+  if (value === null || value === undefined) return null;
+  return typeof value === 'number' ? value : rawCell(value);
+}
+
+export function rawRecord(table: ResultTable, row: Array<unknown>): Record<string, string | number | null> {
+  return Object.fromEntries(table.columns.map((column, i) => [column.name, typedCell(row[i])]));
+}
+
+export function toRecords(table: ResultTable): Array<Record<string, string>> {
+  return table.rows.map(row =>
+    Object.fromEntries(table.columns.map((column, i) => [column.name, formatCell(column, row[i])]))
+  );
+}
+
+function renderTable(table: ResultTable, format: Exclude<OutputFormat, 'json'>): string {
+  switch (format) {
+    case 'markdown_table':
+      return renderMarkdownTable(table);
+    case 'csv':
+      return renderCsv(table);
+    case 'records':
+      return JSON.stringify(toRecords(table), null, 2);
+  }
+}
+
+function describeFunnel(response: FunnelResponse): Array<string> {
+  const dateRange = Array.isArray(response.date_range) ? response.date_range.join(' to ') : response.date_range;
+  return [
+    `Date range: ${dateRange}`,
+    `Overall conversion: ${formatMetricValue('conversion_rate', response.overall_conversion_rate ?? 'n/a')}`,
+  ];
+}
+
+function describeAnomalies(response: AnomalyResponse): Array<string> {
+  const { window, seasonal, threshold } = response.baseline;
+  return [
+    `Analyzed range: ${response.analyzed_range.join(' to ')} (${response.interval}, ${String(response.series_checked)} series)`,
+    `Baseline: ${response.method}, ${String(window)} ${seasonal ? 'same-weekday' : 'preceding'} points, threshold ${String(threshold)}`,
+  ];
+}
+
+function describeTopMovers(response: TopMoversResponse): Array<string> {
+  const { current, previous, change_percent: changePercent } = response.total;
+  const change = changePercent === null ? '' : ` (${changePercent > 0 ? '+' : ''}${String(changePercent)}%)`;
+  return [
+    `Current period: ${response.current_period.join(' to ')}`,
+    `Comparison period: ${response.comparison_period.join(' to ')}`,
+    `Total ${response.metric}: ${formatMetricValue(response.metric, current)} vs ${formatMetricValue(response.metric, previous)}${change}`,
+    `Below min_volume: ${String(response.excluded_count)} values`,
+  ];
+}
+
+function describeComparison(response: ComparisonResponse): Array<string> {
+  return [
+    `Current period: ${response.current_period.join(' to ')}`,
+    `Comparison period: ${response.comparison_period.join(' to ')}`,
+  ];
+}
+
+function describeQueryResponse(response: PlausibleApiResponse): Array<string> {
+  const notes: Array<string> = [];
+  const resolved = response.meta?.resolved_date_range;
+  if (resolved !== undefined) {
+    notes.push(`Date range: ${resolved.date_range.join(' to ')} ('${resolved.expression}', ${resolved.timezone})`);
+  }
+  const totalRows = response.meta?.total_rows;
+  if (totalRows !== undefined) notes.push(`Total rows: ${String(totalRows)}`);
+  if (response.meta?.truncated === true) {
+    notes.push(`Truncated: showing ${String(response.results.length)} rows`);
+  }
+  return notes;
+}
+
+function describeSql(response: SqlResponse): Array<string> {
+  return response.truncated ? [`Truncated: showing the first ${String(response.row_count)} rows (max_rows)`] : [];
+}
+
+function describeResponse(response: FormattableResponse): Array<string> {
+  if ('sql' in response) return describeSql(response);
+  if ('by_absolute_change' in response) return describeTopMovers(response);
+  if ('current_period' in response) return describeComparison(response);
+  if ('overall_conversion_rate' in response) return describeFunnel(response);
+  if ('anomalies' in response) return describeAnomalies(response);
+  return describeQueryResponse(response);
+}
+
+// Notes and table as an HTML fragment, for file reports
+export function formatHtmlResponse(response: FormattableResponse): string {
+  const notes = describeResponse(response).map(note => `<p class="note">${escapeHtml(note)}</p>`);
+  return [...notes, renderHtmlTable(tableFor(response))].join('\n');
+}
+
+export function formatResponse(response: FormattableResponse, format: OutputFormat = 'json'): string {
+  if (format === 'json') return JSON.stringify(response, null, 2);
+
+  const output = renderTable(tableFor(response), format);
+  if (format !== 'markdown_table') return output;
+
+  const notes = describeResponse(response);
+  return notes.length === 0 ? output : `${notes.join('\n')}\n\n${output}`;
+}
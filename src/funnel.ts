@@ -0,0 +1,84 @@
+import { maxFunnelSteps } from "./constants.js";
+import { ValidationError } from "./types.js";
+import { round } from "./utils.js";
+
+import type {
+  BehavioralFilter,
+  FunnelParams,
+  FunnelResponse,
+  FunnelStep,
+  FunnelStepResult,
+  PlausibleApiResponse,
+  PlausibleQuery,
+  QueryOptions,
+} from "./types.js";
+
+// Funnel analysis built on has_done behavioral filters. Step N counts the
+// visitors who completed steps 1..N within the date range; has_done doesn't
+// check the order in which they were completed.
+
+function percent(part: number, whole: number): number | null {
+  return whole === 0 ? null : round((part / whole) * 100, 2);
+}
+
+function stepFilter(step: FunnelStep): BehavioralFilter {
+  return ['has_done', step.type, step.value];
+}
+
+// One visitors query per step, each requiring every step up to and including it
+export function buildFunnelQueries(
+  params: FunnelParams & { site_id: string }
+): Array<PlausibleQuery & QueryOptions> {
+  const { steps, ...base } = params;
+  if (steps.length < 2 || steps.length > maxFunnelSteps) {
+    throw new ValidationError(
+      `A funnel needs between 2 and ${String(maxFunnelSteps)} steps, got ${String(steps.length)}`,
+      'List the goal or page steps in the order visitors are expected to complete them.'
+    );
+  }
+
+  return steps.map((_, i) => ({
+    ...base,
+    metrics: ['visitors'],
+    filters: [...(base.filters ?? []), ['and', steps.slice(0, i + 1).map(stepFilter)]],
+  }));
+}
+
+export function summarizeFunnel(
+  steps: Array<FunnelStep>,
+  responses: Array<PlausibleApiResponse>
+): Array<FunnelStepResult> {
+  const visitors = responses.map(response => response.results[0]?.metrics[0] ?? 0);
+  const entered = visitors[0] ?? 0;
+
+  return steps.map((step, i) => {
+    const current = visitors[i] ?? 0;
+    const previous = i === 0 ? current : visitors[i - 1] ?? 0;
+    return {
+      step: i + 1,
+      ...step,
+      visitors: current,
+      conversion_rate: i === 0 ? null : percent(current, previous),
+      overall_conversion_rate: percent(current, entered),
+      drop_off: previous - current,
+      drop_off_rate: i === 0 ? null : percent(previous - current, previous),
+    };
+  });
+}
+
+export function funnelResponse(
+  params: FunnelParams & { site_id: string },
+  responses: Array<PlausibleApiResponse>
+): FunnelResponse {
+  const results = summarizeFunnel(params.steps, responses);
+  const entered = results[0]?.visitors ?? 0;
+  const completed = results[results.length - 1]?.visitors ?? 0;
+  const { steps: _steps, cache: _cache, ...query } = params;
+
+  return {
+    date_range: params.date_range,
+    results,
+    overall_conversion_rate: percent(completed, entered),
+    query: { ...query, metrics: ['visitors'] },
+  };
+}
@@ -0,0 +1,239 @@
+import { randomUUID, timingSafeEqual } from "crypto";
+import { createServer } from "http";
+
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { requestScheduler } from "./scheduler.js";
+import { debugLog } from "./utils.js";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+
+// HTTP transport: Streamable HTTP on /mcp, legacy SSE on /sse + /messages,
+// and an unauthenticated /healthz. Every MCP session gets its own McpServer.
+
+export type HttpServerOptions = {
+  host: string;
+  port: number;
+  authToken?: string;
+  corsOrigins: Array<string>;
+  sessionIdleTimeoutMs: number;
+};
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+const sseTransports = new Map<string, SSEServerTransport>();
+// Time of each session's last request, for closing idle sessions
+const lastActivity = new Map<string, number>();
+
+function touchSession(sessionId: string): void {
+  lastActivity.set(sessionId, Date.now());
+}
+
+function forgetSession(sessionId: string): void {
+  streamableTransports.delete(sessionId);
+  sseTransports.delete(sessionId);
+  lastActivity.delete(sessionId);
+}
+
+// Clients that vanish without a DELETE or closing their stream would
+// otherwise keep their transport and McpServer forever
+function closeIdleSessions(idleTimeoutMs: number): void {
+  const cutoff = Date.now() - idleTimeoutMs;
+  for (const [sessionId, lastActive] of lastActivity) {
+    if (lastActive > cutoff) continue;
+
+    const transport = streamableTransports.get(sessionId) ?? sseTransports.get(sessionId);
+    forgetSession(sessionId);
+    debugLog("HTTP", "Closing idle session", { sessionId });
+    transport?.close().catch((error: unknown) => {
+      debugLog("HTTP", "Closing idle session failed", error);
+    });
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function jsonRpcError(code: number, message: string): Record<string, unknown> {
+  return { jsonrpc: "2.0", error: { code, message }, id: null };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Array<Buffer> = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (authToken === undefined || authToken === "") return true;
+
+  const header = req.headers.authorization ?? "";
+  const expected = Buffer.from(`Bearer ${authToken}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function applyCors(req: IncomingMessage, res: ServerResponse, corsOrigins: Array<string>): void {
+  const origin = req.headers.origin;
+  if (origin === undefined) return;
+
+  const allowed = corsOrigins.includes("*") || corsOrigins.includes(origin);
+  if (!allowed) return;
+
+  res.setHeader("Access-Control-Allow-Origin", corsOrigins.includes("*") ? "*" : origin);
+  res.setHeader("Vary", "Origin");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID"
+  );
+  res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+}
+
+function sessionHeader(req: IncomingMessage): string | undefined {
+  const value = req.headers["mcp-session-id"];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function handleStreamableRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  createMcpServer: () => McpServer
+): Promise<void> {
+  const sessionId = sessionHeader(req);
+  const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+  const existing = sessionId !== undefined ? streamableTransports.get(sessionId) : undefined;
+  if (sessionId !== undefined && existing !== undefined) {
+    touchSession(sessionId);
+    await existing.handleRequest(req, res, body);
+    return;
+  }
+
+  if (sessionId !== undefined || req.method !== "POST" || !isInitializeRequest(body)) {
+    sendJson(res, 400, jsonRpcError(-32000, "Bad Request: no valid session ID provided"));
+    return;
+  }
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: id => {
+      streamableTransports.set(id, transport);
+      touchSession(id);
+      debugLog("HTTP", "Streamable HTTP session started", { sessionId: id });
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId !== undefined) forgetSession(transport.sessionId);
+  };
+
+  await createMcpServer().connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+async function handleSseConnection(res: ServerResponse, createMcpServer: () => McpServer): Promise<void> {
+  const transport = new SSEServerTransport("/messages", res);
+  sseTransports.set(transport.sessionId, transport);
+  touchSession(transport.sessionId);
+  res.on("close", () => {
+    forgetSession(transport.sessionId);
+  });
+  debugLog("HTTP", "SSE session started", { sessionId: transport.sessionId });
+
+  await createMcpServer().connect(transport);
+}
+
+async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  const transport = sseTransports.get(url.searchParams.get("sessionId") ?? "");
+  if (transport === undefined) {
+    sendJson(res, 404, jsonRpcError(-32001, "Session not found"));
+    return;
+  }
+  touchSession(transport.sessionId);
+  await transport.handlePostMessage(req, res, await readJsonBody(req));
+}
+
+type RouteContext = {
+  createMcpServer: () => McpServer;
+  options: HttpServerOptions;
+};
+
+async function route(req: IncomingMessage, res: ServerResponse, context: RouteContext): Promise<void> {
+  const { createMcpServer, options } = context;
+  const url = new URL(req.url ?? "/", "http://localhost");
+  applyCors(req, res, options.corsOrigins);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (url.pathname === "/healthz") {
+    sendJson(res, 200, {
+      status: "ok",
+      sessions: { streamable_http: streamableTransports.size, sse: sseTransports.size },
+      rate_limit: requestScheduler.status(),
+    });
+    return;
+  }
+
+  if (!isAuthorized(req, options.authToken)) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    sendJson(res, 401, jsonRpcError(-32001, "Unauthorized"));
+    return;
+  }
+
+  if (url.pathname === "/mcp") {
+    await handleStreamableRequest(req, res, createMcpServer);
+  } else if (url.pathname === "/sse" && req.method === "GET") {
+    await handleSseConnection(res, createMcpServer);
+  } else if (url.pathname === "/messages" && req.method === "POST") {
+    await handleSseMessage(req, res, url);
+  } else {
+    sendJson(res, 404, { error: "Not found" });
+  }
+}
+
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<Server> {
+  const server = createServer((req, res) => {
+    route(req, res, { createMcpServer, options }).catch((error: unknown) => {
+      debugLog("HTTP", "Request failed", error);
+      if (res.headersSent) {
+        res.end();
+      } else if (error instanceof SyntaxError) {
+        sendJson(res, 400, jsonRpcError(-32700, "Parse error: request body is not valid JSON"));
+      } else {
+        sendJson(res, 500, jsonRpcError(-32603, "Internal server error"));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, resolve);
+  });
+
+  const sweep = setInterval(() => {
+    closeIdleSessions(options.sessionIdleTimeoutMs);
+  }, Math.min(options.sessionIdleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+  server.on("close", () => {
+    clearInterval(sweep);
+  });
+  return server;
+}
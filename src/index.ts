@@ -1,27 +1,208 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
-import { plausibleApiKey, debugStdio } from "./constants.js";
+import { configReport, describeConfig, loadedConfig } from "./config.js";
+import {
+  plausibleApiKey,
+  debugStdio,
+  defaultSiteId,
+  httpAuthToken,
+  httpCorsOrigins,
+  httpHost,
+  httpPort,
+  httpSessionIdleTimeoutMs,
+  transportMode,
+} from "./constants.js";
+import { hasSiteCredentials } from "./credentials.js";
+import { runExportCommand } from "./export-command.js";
+import { formatResponse } from "./formatting.js";
+import { startHttpServer } from "./http-server.js";
 import { PlausibleClient } from "./plausible-client.js";
-import { ValidationError } from "./types.js";
-import { debugLog } from "./utils.js";
+import { analyticsPrompts } from "./prompts.js";
+import { runReportCommand } from "./report.js";
+import { requestScheduler } from "./scheduler.js";
+import { dimensionCatalog, filterCatalog, metricCatalog } from "./schema-catalog.js";
+import { PlausibleApiError, PolicyError, ValidationError } from "./types.js";
+import { debugLog, errorText } from "./utils.js";
+import { runSyncCommand } from "./warehouse-sync.js";
+import { describeWarehouse } from "./warehouse.js";
 
-import type { PlausibleQuery } from "./types.js";
+import type { CliCommand } from "./config.js";
+import type {
+  QueryParams,
+  PlausibleApiResponse,
+  ComparisonResponse,
+  ExportParams,
+  AggregateParams,
+  BreakdownParams,
+  TimeseriesParams,
+  CompareParams,
+  AnomalyParams,
+  AnomalyResponse,
+  FunnelParams,
+  FunnelResponse,
+  ListPropertiesParams,
+  SqlParams,
+  SqlResponse,
+  TopMoversParams,
+  TopMoversResponse,
+  QueryLintResult,
+  OutputFormat,
+  OutputOptions,
+} from "./types.js";
+import type { CallToolResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
 
-// Check for required API key
-if (plausibleApiKey === undefined || plausibleApiKey === "") {
-  throw new Error("PLAUSIBLE_API_KEY environment variable is required");
+// Tool response helpers
+
+function resultMeta(): Record<string, unknown> {
+  return { rate_limit: requestScheduler.status() };
 }
 
-async function main(): Promise<void> {
-  debugLog("MCP", "Starting Plausible MCP Server", {
-    pid: process.pid,
-    nodeVersion: process.version,
-    debugEnabled: debugStdio
-  });
+function textResult(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+    _meta: resultMeta(),
+  };
+}
+
+function jsonResource(uri: URL, value: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+function apiErrorResult(error: PlausibleApiError): CallToolResult {
+  const title = error.name.replace(/([a-z])([A-Z])/g, '$1 $2');
+  const retryNote = error.retryable
+    ? 'This error is transient; the same request may succeed later.'
+    : 'This error is not transient; do not retry the same request unchanged.';
+  const lines = [`${title}: ${error.message}`, '', retryNote];
+  if (error.remediation !== undefined) {
+    lines.push(`How to fix: ${error.remediation}`);
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: lines.join('\n'),
+      },
+    ],
+    isError: true,
+    _meta: {
+      ...resultMeta(),
+      error: { type: error.name, status: error.status, retryable: error.retryable },
+    },
+  };
+}
+
+// Policy violations are deliberate server limits, so there is no fix to suggest
+function policyErrorResult(error: PolicyError): CallToolResult {
+  const lines = [`Policy Error: ${error.message}`];
+  if (error.details !== undefined && error.details !== '') {
+    lines.push('', `Details: ${error.details}`);
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: lines.join('\n'),
+      },
+    ],
+    isError: true,
+    _meta: { ...resultMeta(), error: { type: error.name, rule: error.rule } },
+  };
+}
+
+// Human-readable summary of a lint suggestion, appended to validation errors
+function lintSuggestion(lint: QueryLintResult): Array<string> {
+  if (lint.suggested_query === undefined) return [];
+
+  const fixes = lint.issues.flatMap(issue => (issue.fix !== undefined ? [`- ${issue.fix}`] : []));
+  const lines = ['', 'Suggested fix:', ...fixes, '', 'Corrected query:', JSON.stringify(lint.suggested_query, null, 2)];
+  if (lint.remaining_error !== undefined) {
+    lines.push('', `The corrected query still fails validation: ${lint.remaining_error.message}`);
+  }
+  return lines;
+}
+
+function toolErrorResult(error: unknown): CallToolResult {
+  debugLog("ERROR", "Query failed", error);
+  
+  if (error instanceof ValidationError) {
+    const errorMessage = error.details !== undefined && error.details !== ''
+      ? `${error.message}\n\nDetails: ${error.details}`
+      : error.message;
+      
+    const suggestion = error.lint !== undefined ? lintSuggestion(error.lint) : [];
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: [`Validation Error: ${errorMessage}`, ...suggestion].join('\n'),
+        },
+      ],
+      isError: true,
+      _meta: error.lint !== undefined ? { ...resultMeta(), lint: error.lint } : resultMeta(),
+    };
+  }
+
+  if (error instanceof PolicyError) {
+    return policyErrorResult(error);
+  }
+
+  if (error instanceof PlausibleApiError) {
+    return apiErrorResult(error);
+  }
+  
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: ${errorMessage}`,
+      },
+    ],
+    isError: true,
+    _meta: resultMeta(),
+  };
+}
 
+async function runQueryTool(
+  run: () => Promise<PlausibleApiResponse | ComparisonResponse | FunnelResponse | AnomalyResponse | TopMoversResponse | SqlResponse>,
+  format?: OutputFormat
+): Promise<CallToolResult> {
+  try {
+    const result = await run();
+    
+    debugLog("TOOL", "Query successful", {
+      resultsCount: "results" in result ? result.results.length : undefined,
+      hasMetadata: "meta" in result && result.meta !== undefined
+    });
+    
+    return textResult(formatResponse(result, format));
+  } catch (error) {
+    return toolErrorResult(error);
+  }
+}
+
+// Build a server with every tool, resource and prompt registered. The HTTP transport
+// creates one per session; stdio uses a single instance.
+function createMcpServer(): McpServer {
   const server = new McpServer({
     name: "plausible-analytics",
     version: "1.0.0",
@@ -33,65 +214,271 @@ async function main(): Promise<void> {
   // Register the plausible_query tool
   server.tool("plausible_query", "Query analytics data from Plausible Analytics", client.getSchema(), async (args: unknown) => {
     debugLog("TOOL", "plausible_query called", args);
-    
+    const { format, ...params } = args as QueryParams & OutputOptions;
+    return runQueryTool(() => client.query(params), format);
+  });
+
+  server.tool("plausible_explain_query", "Check a plausible_query request without running it: lists validation problems and proposes a corrected query", client.getExplainQuerySchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_explain_query called", args);
     try {
-      const params = args as PlausibleQuery;
-      const result = await client.query(params);
-      
-      debugLog("TOOL", "Query successful", {
-        resultsCount: result.results.length,
-        hasMetadata: Boolean(result.meta)
-      });
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
+      return textResult(JSON.stringify(await client.explainQuery(args as QueryParams), null, 2));
     } catch (error) {
-      debugLog("ERROR", "Query failed", error);
-      
-      if (error instanceof ValidationError) {
-        const errorMessage = error.details !== undefined && error.details !== ''
-          ? `${error.message}\n\nDetails: ${error.details}`
-          : error.message;
-          
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Validation Error: ${errorMessage}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-      
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Error: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      return toolErrorResult(error);
+    }
+  });
+
+  // Register the convenience tools
+  server.tool("plausible_aggregate", "Get aggregate stats for a site without any grouping", client.getAggregateSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_aggregate called", args);
+    const { format, ...params } = args as AggregateParams & OutputOptions;
+    return runQueryTool(() => client.aggregate(params), format);
+  });
+
+  server.tool("plausible_breakdown", "Get stats broken down by a single dimension (e.g. pages, sources, countries)", client.getBreakdownSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_breakdown called", args);
+    const { format, ...params } = args as BreakdownParams & OutputOptions;
+    return runQueryTool(() => client.breakdown(params), format);
+  });
+
+  server.tool("plausible_timeseries", "Get stats over time, bucketed by hour, day, week or month", client.getTimeseriesSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_timeseries called", args);
+    const { format, ...params } = args as TimeseriesParams & OutputOptions;
+    return runQueryTool(() => client.timeseries(params), format);
+  });
+
+  server.tool("plausible_compare", "Compare a query against the previous period, the same period last year, or a custom range, with absolute and percent change per metric", client.getCompareSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_compare called", args);
+    const { format, ...params } = args as CompareParams & OutputOptions;
+    return runQueryTool(() => client.compare(params), format);
+  });
+
+  server.tool("plausible_top_movers", "Rank a dimension's values (e.g. sources or pages) by how much a metric changed between two periods, with new and dropped values listed separately", client.getTopMoversSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_top_movers called", args);
+    const { format, ...params } = args as TopMoversParams & OutputOptions;
+    return runQueryTool(() => client.topMovers(params), format);
+  });
+
+  server.tool("plausible_funnel", "Funnel analysis: visitors who completed each of an ordered list of goal or page steps, with step-to-step conversion and drop-off", client.getFunnelSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_funnel called", args);
+    const { format, ...params } = args as FunnelParams & OutputOptions;
+    return runQueryTool(() => client.funnel(params), format);
+  });
+
+  server.tool("plausible_detect_anomalies", "Find unusual spikes and drops in a daily or hourly series, compared against a rolling, weekday-aware baseline", client.getDetectAnomaliesSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_detect_anomalies called", args);
+    const { format, ...params } = args as AnomalyParams & OutputOptions;
+    return runQueryTool(() => client.detectAnomalies(params), format);
+  });
+
+  server.tool("plausible_export", "Run a query (auto-paginated by default) and write every row to a CSV or JSONL file in the export directory. Returns the file path and a row count instead of the data; use it for large breakdowns meant for a spreadsheet", client.getExportSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_export called", args);
+    try {
+      return textResult(JSON.stringify(await client.exportQuery(args as ExportParams), null, 2));
+    } catch (error) {
+      return toolErrorResult(error);
     }
   });
 
+  server.tool("plausible_sql", "Run a read-only SQLite SELECT against the local warehouse of daily rows synced from Plausible, for long-range, cross-site and offline analysis. Read plausible://warehouse/tables first for the tables, columns and synced dates. Daily visitors are unique per day, so summing them over days overcounts unique visitors", client.getSqlSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_sql called", args);
+    const { format, ...params } = args as SqlParams & OutputOptions;
+    return runQueryTool(() => client.sql(params), format);
+  });
+
+  // Site discovery
+  const listSites = async (): Promise<string> => JSON.stringify({
+    default_site: defaultSiteId ?? null,
+    sites: await client.listSites(),
+  }, null, 2);
+
+  server.tool("plausible_list_sites", "List the sites (domains and timezones) the configured API key can access", async () => {
+    debugLog("TOOL", "plausible_list_sites called");
+    try {
+      return textResult(await listSites());
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  });
+
+  server.tool("plausible_list_goals", "List the goals configured for a site, to use with event:goal filters and conversion metrics", client.getListGoalsSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_list_goals called", args);
+    try {
+      return textResult(JSON.stringify(await client.listGoals(args as { site_id?: string }), null, 2));
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  });
+
+  server.tool("plausible_list_segments", "List the saved segments for a site, with the IDs to use in [\"is\", \"segment\", [segment_id]] filters", client.getListSegmentsSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_list_segments called", args);
+    try {
+      return textResult(JSON.stringify(await client.listSegments(args as { site_id?: string }), null, 2));
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  });
+
+  server.tool("plausible_list_properties", "List the custom property keys for a site (for event:props:<key>), or the top values of one property", client.getListPropertiesSchema(), async (args: unknown) => {
+    debugLog("TOOL", "plausible_list_properties called", args);
+    try {
+      return textResult(JSON.stringify(await client.listProperties(args as ListPropertiesParams), null, 2));
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  });
+
+  server.resource("sites", "plausible://sites", {
+    description: "Sites the configured Plausible API key can access",
+    mimeType: "application/json",
+  }, async (uri) => ({
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: await listSites(),
+      },
+    ],
+  }));
+
+  // Query reference, so clients can preload it instead of learning from errors
+  server.resource("schema-metrics", "plausible://schema/metrics", {
+    description: "Every metric with a description, the dimension or filter it requires, and incompatible dimensions",
+    mimeType: "application/json",
+  }, uri => jsonResource(uri, { metrics: metricCatalog() }));
+
+  server.resource("schema-dimensions", "plausible://schema/dimensions", {
+    description: "Every event, visit, time and custom property dimension with a description and incompatible metrics",
+    mimeType: "application/json",
+  }, uri => jsonResource(uri, { dimensions: dimensionCatalog() }));
+
+  server.resource("schema-filters", "plausible://schema/filters", {
+    description: "Filter syntax: simple, logical, behavioral and segment filters with their operators and examples",
+    mimeType: "application/json",
+  }, uri => jsonResource(uri, { filters: filterCatalog() }));
+
+  server.resource("warehouse-tables", "plausible://warehouse/tables", {
+    description: "Tables in the local warehouse queried by plausible_sql: columns, source metrics and dimensions, and synced dates per site",
+    mimeType: "application/json",
+  }, async uri => jsonResource(uri, await describeWarehouse()));
+
+  // Per-site catalogs. Site names complete from plausible_list_sites.
+  const siteTemplate = (path: string): ResourceTemplate => new ResourceTemplate(`plausible://sites/{site}/${path}`, {
+    list: undefined,
+    complete: {
+      site: async value => (await client.listSites()).map(site => site.domain).filter(domain => domain.startsWith(value)),
+    },
+  });
+
+  server.resource("site-goals", siteTemplate("goals"), {
+    description: "Goals configured for a site",
+    mimeType: "application/json",
+  }, async (uri, { site }) => jsonResource(uri, await client.listGoals({ site_id: String(site) })));
+
+  server.resource("site-properties", siteTemplate("properties"), {
+    description: "Custom property keys for a site",
+    mimeType: "application/json",
+  }, async (uri, { site }) => jsonResource(uri, await client.listProperties({ site_id: String(site) })));
+
+  server.resource("site-segments", siteTemplate("segments"), {
+    description: "Saved segments for a site, with their IDs",
+    mimeType: "application/json",
+  }, async (uri, { site }) => jsonResource(uri, await client.listSegments({ site_id: String(site) })));
+
+  for (const prompt of analyticsPrompts) {
+    server.prompt(prompt.name, prompt.description, prompt.args, args => ({
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: prompt.build(args) },
+        },
+      ],
+    }));
+  }
+
+  return server;
+}
+
+// One-shot CLI commands run instead of the server
+async function dispatchCommand(command: CliCommand): Promise<number> {
+  switch (command.name) {
+    case "report":
+      return (await runReportCommand(command)) > 0 ? 1 : 0;
+    case "export":
+      await runExportCommand(command);
+      return 0;
+    case "sync":
+      return (await runSyncCommand(command)) > 0 ? 1 : 0;
+    default:
+      throw new Error(`Unknown command '${command.name}'. Available commands: report, export, sync`);
+  }
+}
+
+// Command failures are reported as one line, without a stack trace
+async function runCommand(command: CliCommand): Promise<void> {
+  try {
+    process.exitCode = await dispatchCommand(command);
+  } catch (error) {
+    console.error(`Error: ${errorText(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+async function main(): Promise<void> {
+  debugLog("MCP", "Starting Plausible MCP Server", {
+    pid: process.pid,
+    nodeVersion: process.version,
+    debugEnabled: debugStdio
+  });
+
   if (debugStdio) {
     debugLog("LIFECYCLE", "Debug mode enabled");
   }
 
+  if (loadedConfig.errors.length > 0) {
+    console.error(["Invalid configuration:", ...loadedConfig.errors.map(error => `  - ${error}`)].join("\n"));
+    process.exit(1);
+  }
+
+  if (loadedConfig.printConfig) {
+    console.log(JSON.stringify(describeConfig(loadedConfig), null, 2));
+    return;
+  }
+
+  // Check for required API key (per-site keys may come from the sites config instead)
+  if (plausibleApiKey === undefined && !hasSiteCredentials()) {
+    throw new Error("No Plausible API key configured. Set PLAUSIBLE_API_KEY, pass --api-key, set api_key in plausible-mcp.config.json, or provide a sites config");
+  }
+
+  if (loadedConfig.command !== undefined) {
+    await runCommand(loadedConfig.command);
+    return;
+  }
+
+  console.error(configReport(loadedConfig).join("\n"));
+
+  if (transportMode === "http") {
+    if (httpAuthToken === undefined && !["127.0.0.1", "localhost", "::1"].includes(httpHost)) {
+      console.error("Warning: serving on a non-loopback address without an auth token; anyone who can reach it can query Plausible");
+    }
+
+    debugLog("TRANSPORT", "Starting HTTP transport", { host: httpHost, port: httpPort });
+    await startHttpServer(createMcpServer, {
+      host: httpHost,
+      port: httpPort,
+      authToken: httpAuthToken,
+      corsOrigins: httpCorsOrigins,
+      sessionIdleTimeoutMs: httpSessionIdleTimeoutMs,
+    });
+
+    console.error(`Plausible MCP Server listening on http://${httpHost}:${String(httpPort)}/mcp (legacy SSE on /sse)`);
+    return;
+  }
+
   // Start the server
   const transport = new StdioServerTransport();
   
   debugLog("TRANSPORT", "Starting stdio transport");
-  await server.connect(transport);
+  await createMcpServer().connect(transport);
   
   console.error("Plausible MCP Server running on stdio");
 }
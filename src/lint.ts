@@ -0,0 +1,193 @@
+import { sessionMetrics } from "./constants.js";
+import { hasFilterForDimension } from "./filters.js";
+import { ValidationError } from "./types.js";
+import { validateAllParameters } from "./validation.js";
+
+import type { SessionMetric } from "./constants.js";
+import type {
+  LintError,
+  LintIssue,
+  PlausibleQuery,
+  QueryLintResult,
+  SiteCatalog,
+} from "./types.js";
+
+// Query linting: find the problems validation would reject and propose a
+// corrected query instead of only reporting an error
+
+type LintFix = {
+  issue: LintIssue;
+  query?: PlausibleQuery;
+};
+
+type LintRule = (query: PlausibleQuery) => LintFix | undefined;
+
+const pageMetrics = ["scroll_depth", "time_on_page"];
+const goalMetrics = ["conversion_rate", "group_conversion_rate", "average_revenue", "total_revenue"];
+
+function isSessionMetric(metric: string): boolean {
+  return sessionMetrics.includes(metric as SessionMetric);
+}
+
+function isEventDimension(dimension: string): boolean {
+  return dimension.startsWith('event:');
+}
+
+function requiresDimension(query: PlausibleQuery, metrics: Array<string>, dimension: string): Array<string> {
+  const used = query.metrics.filter(m => metrics.includes(m));
+  const satisfied = (query.dimensions?.includes(dimension) ?? false) || hasFilterForDimension(query.filters, dimension);
+  return satisfied ? [] : used;
+}
+
+function renameDimension(query: PlausibleQuery, from: string, to: string): PlausibleQuery {
+  return {
+    ...query,
+    dimensions: query.dimensions?.map(d => (d === from ? to : d)),
+    order_by: query.order_by?.map(([field, direction]) => [field === from ? to : field, direction]),
+  };
+}
+
+function withoutMetrics(query: PlausibleQuery, metrics: Array<string>): PlausibleQuery | undefined {
+  const remaining = query.metrics.filter(m => !metrics.includes(m));
+  return remaining.length === 0 ? undefined : { ...query, metrics: remaining };
+}
+
+// Session metrics can't be split by event dimensions; the entry page is the
+// visit-level equivalent of event:page
+const sessionMetricsWithEventDimensions: LintRule = query => {
+  const used = query.metrics.filter(isSessionMetric);
+  if (used.length === 0 || !(query.dimensions ?? []).some(isEventDimension)) return undefined;
+
+  const renamed = renameDimension(query, 'event:page', 'visit:entry_page');
+  if (!(renamed.dimensions ?? []).some(isEventDimension)) {
+    return {
+      issue: {
+        rule: 'session-metrics-with-event-dimensions',
+        message: `Session metrics (${used.join(', ')}) cannot be broken down by event:page`,
+        fix: 'Replaced the event:page dimension with visit:entry_page',
+      },
+      query: renamed,
+    };
+  }
+
+  const fixed = withoutMetrics(renamed, used);
+  return {
+    issue: {
+      rule: 'session-metrics-with-event-dimensions',
+      message: `Session metrics (${used.join(', ')}) cannot be combined with event dimensions`,
+      fix: fixed === undefined ? undefined : `Removed ${used.join(', ')}; query those separately with visit:* dimensions`,
+    },
+    query: fixed,
+  };
+};
+
+const percentageWithoutDimensions: LintRule = query => {
+  if (!query.metrics.includes('percentage') || (query.dimensions?.length ?? 0) > 0) return undefined;
+
+  const fixed = withoutMetrics(query, ['percentage']);
+  return {
+    issue: {
+      rule: 'percentage-without-dimensions',
+      message: "Metric 'percentage' requires at least one dimension",
+      fix: fixed === undefined ? undefined : "Removed 'percentage'; add a dimension to get each group's share of visitors",
+    },
+    query: fixed,
+  };
+};
+
+const pageMetricsWithoutPage: LintRule = query => {
+  const used = requiresDimension(query, pageMetrics, 'event:page');
+  if (used.length === 0) return undefined;
+  return {
+    issue: {
+      rule: 'page-metrics-without-page',
+      message: `Metrics ${used.join(', ')} require event:page`,
+      fix: 'Added an event:page dimension',
+    },
+    query: { ...query, dimensions: [...(query.dimensions ?? []), 'event:page'] },
+  };
+};
+
+const goalMetricsWithoutGoal: LintRule = query => {
+  const used = requiresDimension(query, goalMetrics, 'event:goal');
+  if (used.length === 0) return undefined;
+  return {
+    issue: {
+      rule: 'goal-metrics-without-goal',
+      message: `Metrics ${used.join(', ')} require event:goal`,
+      fix: 'Added an event:goal dimension',
+    },
+    query: { ...query, dimensions: [...(query.dimensions ?? []), 'event:goal'] },
+  };
+};
+
+const timeLabelsWithoutTimeDimension: LintRule = query => {
+  if (query.include?.time_labels !== true || (query.dimensions ?? []).some(d => d.startsWith('time'))) {
+    return undefined;
+  }
+  return {
+    issue: {
+      rule: 'time-labels-without-time-dimension',
+      message: 'time_labels requires a time dimension',
+      fix: 'Removed include.time_labels',
+    },
+    query: { ...query, include: { ...query.include, time_labels: false } },
+  };
+};
+
+const rules: Array<LintRule> = [
+  sessionMetricsWithEventDimensions,
+  percentageWithoutDimensions,
+  pageMetricsWithoutPage,
+  goalMetricsWithoutGoal,
+  timeLabelsWithoutTimeDimension,
+];
+
+function validationFailure(query: PlausibleQuery, catalog?: SiteCatalog): LintError | undefined {
+  try {
+    validateAllParameters(query, catalog);
+    return undefined;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { message: error.message, details: error.details };
+    }
+    throw error;
+  }
+}
+
+export function lintQuery(query: PlausibleQuery, catalog?: SiteCatalog): QueryLintResult {
+  const error = validationFailure(query, catalog);
+  const issues: Array<LintIssue> = [];
+  let suggested = query;
+
+  for (const rule of rules) {
+    const fix = rule(suggested);
+    if (fix === undefined) continue;
+    issues.push(fix.issue);
+    suggested = fix.query ?? suggested;
+  }
+
+  if (suggested === query) {
+    return { valid: error === undefined, error, issues };
+  }
+  return {
+    valid: error === undefined,
+    error,
+    issues,
+    suggested_query: suggested,
+    remaining_error: validationFailure(suggested, catalog),
+  };
+}
+
+// Validate a query; on failure, attach lint results to the error so the
+// caller gets a corrected query alongside the message
+export function validateWithLint(query: PlausibleQuery, catalog?: SiteCatalog): void {
+  try {
+    validateAllParameters(query, catalog);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      error.lint = lintQuery(query, catalog);
+    }
+    throw error;
+  }
+}
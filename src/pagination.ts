@@ -0,0 +1,44 @@
+import { executeQuery } from "./api.js";
+
+import type { PlausibleApiResponse, PlausibleQuery, QueryOptions } from "./types.js";
+
+// Automatic pagination: walk the offsets of a query and concatenate the pages
+
+const MAX_PAGE_SIZE = 10000;
+
+function isLastPage(page: PlausibleApiResponse, requested: number, offset: number): boolean {
+  const totalRows = page.meta?.total_rows;
+  return page.results.length < requested || (totalRows !== undefined && offset >= totalRows);
+}
+
+export async function executePaginatedQuery(
+  query: PlausibleQuery & QueryOptions,
+  maxRows: number
+): Promise<PlausibleApiResponse> {
+  const pageSize = Math.min(query.pagination?.limit ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  const startOffset = query.pagination?.offset ?? 0;
+  const include = { ...query.include, total_rows: true };
+  const results: PlausibleApiResponse['results'] = [];
+
+  let offset = startOffset;
+  let lastPage: PlausibleApiResponse;
+  do {
+    const limit = Math.min(pageSize, maxRows - results.length);
+    lastPage = await executeQuery({ ...query, include, pagination: { limit, offset } });
+    results.push(...lastPage.results);
+    offset += lastPage.results.length;
+    if (isLastPage(lastPage, limit, offset)) break;
+  } while (results.length < maxRows);
+
+  const totalRows = lastPage.meta?.total_rows;
+  const truncated = totalRows === undefined
+    ? results.length >= maxRows
+    : startOffset + results.length < totalRows;
+
+  return {
+    ...lastPage,
+    results,
+    meta: { ...lastPage.meta, total_rows: totalRows, truncated },
+    query: { ...lastPage.query, include: query.include, pagination: query.pagination },
+  };
+}
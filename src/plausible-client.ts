@@ -1,6 +1,8 @@
 import { z } from "zod";
 
-import { executeQuery } from "./api.js";
+import { buildAnomalyPlan, detectAnomalies } from "./anomalies.js";
+import { executeQuery, fetchSites } from "./api.js";
+import { buildComparisonQueries, mergeComparison } from "./compare.js";
 import {
   predefinedDateRanges,
   validMetrics,
@@ -10,10 +12,65 @@ import {
   filterOperators,
   logicalOperators,
   behavioralOperators,
+  timeseriesIntervals,
+  comparisonModes,
+  exportFormats,
+  anomalyIntervals,
+  anomalyMethods,
+  funnelStepTypes,
+  maxFunnelSteps,
+  outputFormats,
+  defaultSiteId,
+  cacheModes,
+  autoPaginateMaxRows,
+  maxPaginationLimit,
 } from "./constants.js";
-import { validateAllParameters } from "./validation.js";
+import { resolveDateExpression } from "./date-expressions.js";
+import {
+  getPropertyValues,
+  getSiteGoals,
+  getSiteProperties,
+  getSiteSegments,
+  loadSiteCatalog,
+} from "./discovery.js";
+import { exportPath, writeExport } from "./export.js";
+import { buildFunnelQueries, funnelResponse } from "./funnel.js";
+import { lintQuery, validateWithLint } from "./lint.js";
+import { executePaginatedQuery } from "./pagination.js";
+import { applyPaginationLimit, enforceDateSpan, enforceDimensionPolicy, enforceSiteAccess, isSiteAllowed } from "./policy.js";
+import { rankMovers } from "./top-movers.js";
+import { ValidationError } from "./types.js";
+import { validateDateRange } from "./validation.js";
+import { runWarehouseSql } from "./warehouse.js";
 
-import type { PlausibleQuery, PlausibleApiResponse } from "./types.js";
+import type {
+  AnomalyParams,
+  AnomalyResponse,
+  PlausibleApiResponse,
+  PlausibleQuery,
+  PlausibleSegment,
+  PlausibleSite,
+  QueryParams,
+  AggregateParams,
+  BreakdownParams,
+  TimeseriesParams,
+  CompareParams,
+  ComparisonResponse,
+  ExportParams,
+  ExportSummary,
+  FunnelParams,
+  FunnelResponse,
+  ListPropertiesParams,
+  PropertyValue,
+  QueryLintResult,
+  QueryOptions,
+  SiteGoals,
+  SiteProperties,
+  SqlParams,
+  SqlResponse,
+  TopMoversParams,
+  TopMoversResponse,
+} from "./types.js";
 
 // Zod schemas for validation
 const dimensionSchema = z.union([
@@ -23,16 +80,34 @@ const dimensionSchema = z.union([
   z.string(),
 ]);
 
-const simpleFilterSchema = z.tuple([
-  z.string(),
-  z.enum(filterOperators),
-  z.union([z.string(), z.array(z.string())]),
+const filterModifiersSchema = z.object({
+  case_sensitive: z.boolean().optional(),
+});
+
+const simpleFilterSchema = z.union([
+  z.tuple([
+    z.string(),
+    z.enum(filterOperators),
+    z.union([z.string(), z.array(z.string())]),
+  ]),
+  z.tuple([
+    z.string(),
+    z.enum(filterOperators),
+    z.union([z.string(), z.array(z.string())]),
+    filterModifiersSchema,
+  ]),
+]);
+
+const segmentFilterSchema = z.tuple([
+  z.literal("is"),
+  z.literal("segment"),
+  z.array(z.number().int().positive()).min(1),
 ]);
 
 const logicalFilterSchema: z.ZodType = z.lazy(() =>
   z.tuple([
     z.enum(logicalOperators),
-    z.array(z.union([simpleFilterSchema, logicalFilterSchema, behavioralFilterSchema])),
+    z.array(z.union([simpleFilterSchema, logicalFilterSchema, behavioralFilterSchema, segmentFilterSchema])),
   ])
 );
 
@@ -46,10 +121,14 @@ const filterSchema = z.union([
   simpleFilterSchema,
   logicalFilterSchema,
   behavioralFilterSchema,
+  segmentFilterSchema,
 ]);
 
-const queryParamsSchema = z.object({
-  site_id: z.string().describe("Domain of the site in Plausible"),
+export const queryParamsSchema = z.object({
+  site_id: z
+    .string()
+    .optional()
+    .describe("Domain of the site in Plausible. Defaults to PLAUSIBLE_DEFAULT_SITE when configured; use plausible_list_sites to see available sites"),
   metrics: z
     .array(z.enum(validMetrics))
     .min(1)
@@ -58,8 +137,9 @@ const queryParamsSchema = z.object({
     .union([
       z.enum(predefinedDateRanges).describe("Predefined date range"),
       z.tuple([z.string(), z.string()]).describe("Custom date range [start_date, end_date] in ISO8601"),
+      z.string().describe("Natural-language date range, e.g. 'yesterday', 'last week', 'last 14 days', 'this month so far', 'Q3 2025', 'since 2026-01-01'"),
     ])
-    .describe(`Date range to query. Either a predefined range (${predefinedDateRanges.join(", ")}) or custom date range as [start_date, end_date] in ISO8601 format`),
+    .describe(`Date range to query. Either a predefined range (${predefinedDateRanges.join(", ")}), a custom date range as [start_date, end_date] in ISO8601 format, or a natural-language expression resolved to explicit dates (echoed back in meta.resolved_date_range)`),
   dimensions: z
     .array(dimensionSchema)
     .optional()
@@ -67,7 +147,7 @@ const queryParamsSchema = z.object({
   filters: z
     .array(filterSchema)
     .optional()
-    .describe("Filters to apply"),
+    .describe("Filters to apply. Simple filters are [dimension, operator, value] with an optional {\"case_sensitive\": false} modifier; saved segments are [\"is\", \"segment\", [segment_id]] (see plausible_list_segments)"),
   order_by: z
     .array(z.tuple([z.string(), z.enum(["asc", "desc"])]))
     .optional()
@@ -89,16 +169,425 @@ const queryParamsSchema = z.object({
     .describe("Pagination options"),
 });
 
+// Options shared by all query tools; never sent to the API
+const outputOptionsShape = {
+  cache: z
+    .enum(cacheModes)
+    .optional()
+    .describe("Set to 'bypass' to skip cached results and fetch fresh data (the fresh result is cached again)"),
+  format: z
+    .enum(outputFormats)
+    .default("json")
+    .describe("Output format: raw API json, a labeled markdown_table, csv with raw values, or records (one labeled object per row). markdown_table and records format values per metric (percentages, mm:ss durations, currency)"),
+};
+
+// Client-side pagination options for tools that return row lists
+const paginationOptionsShape = {
+  auto_paginate: z
+    .boolean()
+    .optional()
+    .describe("Fetch every page of results (using pagination.limit or limit as the page size) and return them as one result. meta.truncated reports whether rows beyond the row ceiling were left out"),
+  max_rows: z
+    .number()
+    .min(1)
+    .optional()
+    .describe(`Row ceiling for auto_paginate (default and maximum ${String(autoPaginateMaxRows)})`),
+};
+
+// Narrower schemas for the convenience tools
+const aggregateParamsSchema = queryParamsSchema.pick({
+  site_id: true,
+  metrics: true,
+  date_range: true,
+  filters: true,
+});
+
+const breakdownParamsSchema = aggregateParamsSchema.extend({
+  dimension: dimensionSchema.describe("Dimension to break the results down by"),
+  order_by: queryParamsSchema.shape.order_by,
+  limit: z.number().min(1).max(10000).optional().describe("Number of rows to return (max 10000)"),
+});
+
+const timeseriesParamsSchema = aggregateParamsSchema.extend({
+  interval: z
+    .enum(timeseriesIntervals)
+    .describe(`Time bucket for each data point (${timeseriesIntervals.join(", ")}), mapped to the time:<interval> dimension`),
+});
+
+const compareParamsSchema = queryParamsSchema.extend({
+  comparison: z
+    .enum(comparisonModes)
+    .default("previous_period")
+    .describe("Period to compare against: the immediately preceding period of equal length, the same period one year earlier, or a custom range"),
+  comparison_date_range: z
+    .tuple([z.string(), z.string()])
+    .optional()
+    .describe("Comparison range [start_date, end_date] in ISO8601 format, required when comparison is 'custom'"),
+});
+
+const topMoversParamsSchema = compareParamsSchema.pick({
+  site_id: true,
+  date_range: true,
+  filters: true,
+  comparison: true,
+  comparison_date_range: true,
+}).extend({
+  dimension: dimensionSchema.describe("Dimension whose values are ranked, e.g. visit:source or event:page"),
+  metric: z.enum(validMetrics).default("visitors").describe("Metric whose change is ranked"),
+  min_volume: z
+    .number()
+    .min(0)
+    .default(10)
+    .describe("Ignore values whose metric is below this in both periods, so tiny values don't dominate the relative change ranking"),
+  limit: z.number().int().min(1).max(100).default(10).describe("Maximum rows in each list"),
+});
+
+const funnelParamsSchema = aggregateParamsSchema.omit({ metrics: true }).extend({
+  steps: z
+    .array(z.object({
+      type: z.enum(funnelStepTypes).describe("Whether the step is completing a goal or visiting a page"),
+      value: z.string().min(1).describe("Goal name (see plausible_list_goals) or page path starting with /, e.g. /pricing"),
+    }))
+    .min(2)
+    .max(maxFunnelSteps)
+    .describe(`Ordered funnel steps (2 to ${String(maxFunnelSteps)}). Step N counts visitors who completed every step up to N in the date range, in any order`),
+});
+
+const anomalyParamsSchema = aggregateParamsSchema.omit({ metrics: true }).extend({
+  metric: z.enum(validMetrics).describe("Metric to check for anomalies"),
+  interval: z
+    .enum(anomalyIntervals)
+    .default("day")
+    .describe("Series granularity, mapped to the time:day or time:hour dimension"),
+  dimension: dimensionSchema
+    .optional()
+    .describe("Optional breakdown dimension; each of its top values is checked as a separate series"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(10)
+    .describe("Number of breakdown values to check, largest first (only with dimension)"),
+  method: z
+    .enum(anomalyMethods)
+    .default("mad")
+    .describe("Baseline statistic: mad (median and median absolute deviation, robust to earlier outliers) or zscore (mean and standard deviation)"),
+  threshold: z
+    .number()
+    .positive()
+    .default(3)
+    .describe("Score (deviations from the expected value) at which a point is flagged"),
+  window: z
+    .number()
+    .int()
+    .min(3)
+    .max(60)
+    .default(6)
+    .describe("Number of earlier comparable points in each point's baseline"),
+  seasonal: z
+    .boolean()
+    .default(true)
+    .describe("Compare each point with the same weekday (day) or the same weekday and hour (hour) instead of the immediately preceding points"),
+});
+
+// Exports write rows to a file instead of returning them, so they paginate by default
+export const exportParamsSchema = queryParamsSchema.extend({
+  ...paginationOptionsShape,
+  auto_paginate: z
+    .boolean()
+    .default(true)
+    .describe("Fetch every page of results before writing the file (default true). meta.truncated in the summary reports whether rows beyond the row ceiling were left out"),
+  cache: outputOptionsShape.cache,
+  format: z
+    .enum(exportFormats)
+    .default("csv")
+    .describe("File format: csv with a header row, or jsonl with one JSON object per row. Both keep raw values (numbers stay numbers)"),
+  filename: z
+    .string()
+    .optional()
+    .describe("File name inside the export directory, e.g. pages-2025.csv. Defaults to the site and a timestamp"),
+});
+
+// Read-only SQL over the local warehouse filled by the sync command
+const sqlParamsSchema = z.object({
+  sql: z
+    .string()
+    .min(1)
+    .describe("One SQLite SELECT statement. Read plausible://warehouse/tables for the tables, columns and synced date ranges"),
+  max_rows: z.number().int().min(1).max(10000).default(1000).describe("Maximum rows to return (default 1000)"),
+});
+
+// Discovery tool schemas
+const listGoalsParamsSchema = queryParamsSchema.pick({ site_id: true });
+
+const listPropertiesParamsSchema = listGoalsParamsSchema.extend({
+  property: z
+    .string()
+    .optional()
+    .describe("Custom property key (without the event:props: prefix). When given, returns its most common values instead of the key list"),
+  date_range: queryParamsSchema.shape.date_range.optional(),
+});
+
+// Fill in the configured default site when the caller leaves site_id out, and
+// refuse sites the server's policy doesn't allow before anything is fetched
+function withDefaultSite<TParams extends { site_id?: string }>(
+  params: TParams
+): TParams & { site_id: string } {
+  const siteId = params.site_id ?? defaultSiteId;
+  if (siteId === undefined || siteId === '') {
+    throw new ValidationError(
+      'site_id is required',
+      'Pass site_id explicitly or set the PLAUSIBLE_DEFAULT_SITE environment variable. Use plausible_list_sites to see which sites are available.'
+    );
+  }
+  enforceSiteAccess(siteId);
+  return { ...params, site_id: siteId };
+}
+
+// Resolve and validate a comparison, then split it into the current and
+// comparison period queries
+async function comparisonQueries(params: CompareParams): Promise<[PlausibleQuery & QueryOptions, PlausibleQuery & QueryOptions]> {
+  const compareParams = withDefaultSite(params);
+  const resolution = resolveDateExpression(compareParams.date_range);
+  if (resolution !== undefined) compareParams.date_range = resolution.date_range;
+  validateWithLint(compareParams, await loadSiteCatalog(compareParams));
+  if (compareParams.comparison_date_range !== undefined) {
+    validateDateRange(compareParams.comparison_date_range);
+    enforceDateSpan(compareParams.comparison_date_range);
+  }
+  return buildComparisonQueries(compareParams);
+}
+
+// Auto-pagination stops at the requested row count, the configured ceiling or
+// the policy's pagination limit, whichever is lowest
+function rowCeiling(maxRows?: number): number {
+  return Math.min(maxRows ?? autoPaginateMaxRows, autoPaginateMaxRows, maxPaginationLimit ?? Infinity);
+}
+
 export class PlausibleClient {
-  async query(params: PlausibleQuery): Promise<PlausibleApiResponse> {
+  async query(params: QueryParams): Promise<PlausibleApiResponse> {
+    const { auto_paginate: autoPaginate, max_rows: maxRows, ...query } = withDefaultSite(params);
+    const resolution = resolveDateExpression(query.date_range);
+    if (resolution !== undefined) query.date_range = resolution.date_range;
+
     // Validate parameters
-    validateAllParameters(params);
+    validateWithLint(query, await loadSiteCatalog(query));
     
     // Execute the query
-    return executeQuery(params);
+    const result = autoPaginate === true
+      ? await executePaginatedQuery(query, rowCeiling(maxRows))
+      : await executeQuery(applyPaginationLimit(query));
+
+    return resolution === undefined
+      ? result
+      : { ...result, meta: { ...result.meta, resolved_date_range: resolution } };
+  }
+
+  async aggregate(params: AggregateParams): Promise<PlausibleApiResponse> {
+    return this.query({
+      site_id: params.site_id,
+      metrics: params.metrics,
+      date_range: params.date_range,
+      filters: params.filters,
+      cache: params.cache,
+    });
+  }
+
+  async breakdown(params: BreakdownParams): Promise<PlausibleApiResponse> {
+    const { dimension, limit, ...rest } = params;
+    return this.query({
+      ...rest,
+      dimensions: [dimension],
+      pagination: limit === undefined ? undefined : { limit },
+    });
+  }
+
+  async timeseries(params: TimeseriesParams): Promise<PlausibleApiResponse> {
+    const { interval, ...rest } = params;
+    return this.query({
+      ...rest,
+      dimensions: [`time:${interval}`],
+      include: { time_labels: true },
+    });
+  }
+  
+  async compare(params: CompareParams): Promise<ComparisonResponse> {
+    const [currentQuery, previousQuery] = await comparisonQueries(params);
+
+    const [current, previous] = await Promise.all([
+      executeQuery(applyPaginationLimit(currentQuery)),
+      executeQuery(applyPaginationLimit(previousQuery)),
+    ]);
+
+    return {
+      current_period: currentQuery.date_range as [string, string],
+      comparison_period: previousQuery.date_range as [string, string],
+      results: mergeComparison(currentQuery.metrics, current, previous),
+      query: currentQuery,
+    };
+  }
+
+  // Rank a dimension's values by change between two periods; totals come from
+  // separate aggregate queries so they aren't skewed by the min_volume cut
+  async topMovers(params: TopMoversParams): Promise<TopMoversResponse> {
+    const { dimension, metric, min_volume: _minVolume, limit: _limit, ...rest } = params;
+    const [currentQuery, previousQuery] = await comparisonQueries({
+      ...rest,
+      metrics: [metric],
+      dimensions: [dimension],
+    });
+    const { dimensions: _currentDimensions, ...currentTotalQuery } = currentQuery;
+    const { dimensions: _previousDimensions, ...previousTotalQuery } = previousQuery;
+
+    const [current, previous, currentTotal, previousTotal] = await Promise.all([
+      executePaginatedQuery(currentQuery, rowCeiling()),
+      executePaginatedQuery(previousQuery, rowCeiling()),
+      executeQuery(currentTotalQuery),
+      executeQuery(previousTotalQuery),
+    ]);
+
+    return {
+      dimension,
+      metric,
+      current_period: currentQuery.date_range as [string, string],
+      comparison_period: previousQuery.date_range as [string, string],
+      ...rankMovers(params, { current, previous, currentTotal, previousTotal }),
+      query: currentQuery,
+    };
+  }
+  
+  // Visitors per step from cumulative has_done filters, one query per step
+  async funnel(params: FunnelParams): Promise<FunnelResponse> {
+    const funnelParams = withDefaultSite(params);
+    const resolution = resolveDateExpression(funnelParams.date_range);
+    if (resolution !== undefined) funnelParams.date_range = resolution.date_range;
+
+    const queries = buildFunnelQueries(funnelParams);
+    for (const query of queries) {
+      validateWithLint(query, await loadSiteCatalog(query));
+    }
+
+    const responses = await Promise.all(queries.map(query => executeQuery(query)));
+    return funnelResponse(funnelParams, responses);
+  }
+
+  // Flag points that break a rolling baseline; history before the range is
+  // fetched so the first points have a full baseline
+  async detectAnomalies(params: AnomalyParams): Promise<AnomalyResponse> {
+    const anomalyParams = withDefaultSite(params);
+    const resolution = resolveDateExpression(anomalyParams.date_range);
+    if (resolution !== undefined) anomalyParams.date_range = resolution.date_range;
+
+    const plan = buildAnomalyPlan(anomalyParams);
+    const requested = { ...plan.query, date_range: plan.analyzedRange };
+    validateWithLint(requested, await loadSiteCatalog(requested));
+    enforceDateSpan(plan.query.date_range);
+
+    const response = await executePaginatedQuery(plan.query, rowCeiling());
+    return detectAnomalies(anomalyParams, plan, response);
+  }
+
+  // Stream the query's rows to a file and return a summary instead of the rows.
+  // `output` (CLI only) replaces the export directory path.
+  async exportQuery(params: ExportParams, output?: string): Promise<ExportSummary> {
+    const { format, filename, ...query } = withDefaultSite(params);
+    const path = output ?? exportPath(query.site_id, format, filename);
+    return writeExport(await this.query(query), format, path);
+  }
+
+  // Answered from the local warehouse; Plausible isn't called
+  sql(params: SqlParams): Promise<SqlResponse> {
+    return runWarehouseSql(params.sql, params.max_rows);
+  }
+
+  // Lint a query without running it: validation result, issues and a corrected query
+  async explainQuery(params: QueryParams): Promise<QueryLintResult> {
+    const query = withDefaultSite(params);
+    const resolution = resolveDateExpression(query.date_range);
+    if (resolution !== undefined) query.date_range = resolution.date_range;
+    return lintQuery(query, await loadSiteCatalog(query));
+  }
+
+  async listSites(): Promise<Array<PlausibleSite>> {
+    const sites = await fetchSites();
+    return sites.filter(site => isSiteAllowed(site.domain));
+  }
+
+  async listGoals(params: { site_id?: string }): Promise<SiteGoals & { site_id: string }> {
+    const { site_id: siteId } = withDefaultSite(params);
+    return { site_id: siteId, ...await getSiteGoals(siteId) };
+  }
+
+  async listSegments(params: { site_id?: string }): Promise<{ site_id: string; segments: Array<PlausibleSegment> }> {
+    const { site_id: siteId } = withDefaultSite(params);
+    const segments = await getSiteSegments(siteId);
+    return { site_id: siteId, segments: segments.map(({ id, name, type }) => ({ id, name, type })) };
+  }
+
+  async listProperties(params: ListPropertiesParams): Promise<{ site_id: string } & (SiteProperties | { property: string; values: Array<PropertyValue> })> {
+    const { site_id: siteId, property, date_range: dateRange } = withDefaultSite(params);
+    if (property === undefined) {
+      return { site_id: siteId, ...await getSiteProperties(siteId) };
+    }
+    enforceDimensionPolicy(siteId, [`event:props:${property}`]);
+    if (dateRange !== undefined) enforceDateSpan(dateRange);
+    return { site_id: siteId, property, values: await getPropertyValues(siteId, property, dateRange) };
   }
   
   getSchema(): z.ZodRawShape {
+    return { ...queryParamsSchema.shape, ...paginationOptionsShape, ...outputOptionsShape };
+  }
+
+  getExportSchema(): z.ZodRawShape {
+    return exportParamsSchema.shape;
+  }
+
+  getSqlSchema(): z.ZodRawShape {
+    return { ...sqlParamsSchema.shape, format: outputOptionsShape.format };
+  }
+
+  getExplainQuerySchema(): z.ZodRawShape {
     return queryParamsSchema.shape;
   }
+
+  getAggregateSchema(): z.ZodRawShape {
+    return { ...aggregateParamsSchema.shape, ...outputOptionsShape };
+  }
+
+  getBreakdownSchema(): z.ZodRawShape {
+    return { ...breakdownParamsSchema.shape, ...paginationOptionsShape, ...outputOptionsShape };
+  }
+
+  getTimeseriesSchema(): z.ZodRawShape {
+    return { ...timeseriesParamsSchema.shape, ...outputOptionsShape };
+  }
+
+  getCompareSchema(): z.ZodRawShape {
+    return { ...compareParamsSchema.shape, ...outputOptionsShape };
+  }
+
+  getTopMoversSchema(): z.ZodRawShape {
+    return { ...topMoversParamsSchema.shape, ...outputOptionsShape };
+  }
+
+  getFunnelSchema(): z.ZodRawShape {
+    return { ...funnelParamsSchema.shape, ...outputOptionsShape };
+  }
+
+  getDetectAnomaliesSchema(): z.ZodRawShape {
+    return { ...anomalyParamsSchema.shape, ...outputOptionsShape };
+  }
+
+  getListGoalsSchema(): z.ZodRawShape {
+    return listGoalsParamsSchema.shape;
+  }
+
+  getListSegmentsSchema(): z.ZodRawShape {
+    return listGoalsParamsSchema.shape;
+  }
+
+  getListPropertiesSchema(): z.ZodRawShape {
+    return listPropertiesParamsSchema.shape;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import {
+  allowedSites,
+  blockedDimensions,
+  deniedSites,
+  maxDateSpanDays,
+  maxPaginationLimit,
+  siteBlockedDimensions,
+} from "./constants.js";
+import { daysBetween, parseIsoDate, resolveDateRange } from "./dates.js";
+import { collectFilterDimensions } from "./filters.js";
+import { PolicyError } from "./types.js";
+import { globToRegExp } from "./utils.js";
+
+import type { PlausibleQuery } from "./types.js";
+
+// Server-side guardrails configured by the operator. Unlike validation
+// errors, these can't be fixed by correcting the query's syntax.
+
+function matchesAny(value: string, patterns: Array<string>): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(value));
+}
+
+export function isSiteAllowed(siteId: string): boolean {
+  if (matchesAny(siteId, deniedSites)) return false;
+  return allowedSites.length === 0 || matchesAny(siteId, allowedSites);
+}
+
+export function enforceSiteAccess(siteId: string): void {
+  if (isSiteAllowed(siteId)) return;
+
+  throw new PolicyError(
+    `Access to site '${siteId}' is not allowed by this server's policy`,
+    'site_access',
+    'Use plausible_list_sites to see the sites this server can query.'
+  );
+}
+
+// Dimensions blocked everywhere plus those blocked for this site
+function blockedDimensionsFor(siteId: string): Array<string> {
+  const perSite = Object.entries(siteBlockedDimensions)
+    .filter(([pattern]) => globToRegExp(pattern).test(siteId))
+    .flatMap(([, dimensions]) => dimensions);
+  return [...blockedDimensions, ...perSite];
+}
+
+export function enforceDimensionPolicy(
+  siteId: string,
+  dimensions: Array<string> = [],
+  filters?: PlausibleQuery['filters']
+): void {
+  const blocked = blockedDimensionsFor(siteId);
+  if (blocked.length === 0) return;
+
+  // Filtering on a dimension reveals as much as grouping by it
+  const used = [...dimensions, ...collectFilterDimensions(filters)];
+  const denied = used.find(dimension => matchesAny(dimension, blocked));
+  if (denied !== undefined) {
+    throw new PolicyError(
+      `Dimension '${denied}' is blocked for site '${siteId}'`,
+      'blocked_dimension',
+      `This server does not allow grouping or filtering by: ${blocked.join(', ')}`
+    );
+  }
+}
+
+export function enforceDateSpan(dateRange: PlausibleQuery['date_range']): void {
+  if (maxDateSpanDays === undefined) return;
+
+  if (dateRange === 'all') {
+    throw new PolicyError(
+      `date_range 'all' exceeds the maximum span of ${String(maxDateSpanDays)} days`,
+      'max_date_span',
+      'Query a bounded range instead, e.g. 12mo or a [start_date, end_date] pair.'
+    );
+  }
+
+  const [start, end] = resolveDateRange(dateRange);
+  const span = daysBetween(parseIsoDate(start), parseIsoDate(end)) + 1;
+  if (span > maxDateSpanDays) {
+    throw new PolicyError(
+      `Date range spans ${String(span)} days, more than the maximum of ${String(maxDateSpanDays)}`,
+      'max_date_span',
+      'Split the query into shorter ranges or narrow the date range.'
+    );
+  }
+}
+
+export function enforcePaginationLimit(pagination?: PlausibleQuery['pagination']): void {
+  if (maxPaginationLimit === undefined || pagination?.limit === undefined) return;
+
+  if (pagination.limit > maxPaginationLimit) {
+    throw new PolicyError(
+      `pagination.limit ${String(pagination.limit)} exceeds the maximum of ${String(maxPaginationLimit)}`,
+      'max_pagination_limit',
+      `Request at most ${String(maxPaginationLimit)} rows per query.`
+    );
+  }
+}
+
+// Without a limit the API returns every row, so the maximum becomes the default
+export function applyPaginationLimit<T extends Pick<PlausibleQuery, 'pagination'>>(query: T): T {
+  if (maxPaginationLimit === undefined || query.pagination?.limit !== undefined) return query;
+  return { ...query, pagination: { ...query.pagination, limit: maxPaginationLimit } };
+}
+
+export function enforcePolicy(params: {
+  site_id: string;
+  date_range: PlausibleQuery['date_range'];
+  dimensions?: Array<string>;
+  filters?: PlausibleQuery['filters'];
+  pagination?: PlausibleQuery['pagination'];
+}): void {
+  enforceSiteAccess(params.site_id);
+  enforceDimensionPolicy(params.site_id, params.dimensions, params.filters);
+  enforceDateSpan(params.date_range);
+  enforcePaginationLimit(params.pagination);
+}
@@ -0,0 +1,197 @@
+import { z } from "zod";
+
+import type { FilterType } from "./types.js";
+
+// Prompt library for recurring reports. Each prompt spells out the tool calls
+// and metrics to use, so the same report comes out the same way every time.
+
+type PromptArgs = Record<string, string | undefined>;
+
+export type AnalyticsPrompt = {
+  name: string;
+  description: string;
+  args: Record<string, z.ZodString | z.ZodOptional<z.ZodString>>;
+  build: (args: PromptArgs) => string;
+};
+
+const siteArg = z
+  .string()
+  .optional()
+  .describe("Site domain in Plausible. Defaults to the server's default site");
+
+function periodArg(fallback: string): z.ZodOptional<z.ZodString> {
+  return z
+    .string()
+    .optional()
+    .describe(`Period to report on, e.g. 'last week', 'last 30 days', 'Q3 2025' or 7d (default: ${fallback})`);
+}
+
+// A tool call with its arguments, or a free-form instruction
+type PromptStep = string | {
+  purpose: string;
+  tool: string;
+  args: Record<string, unknown>;
+};
+
+function renderStep(step: PromptStep, index: number): string {
+  const number = `${String(index + 1)}.`;
+  if (typeof step === "string") return `${number} ${step}`;
+  return `${number} ${step.purpose}: call \`${step.tool}\` with \`${JSON.stringify(step.args)}\``;
+}
+
+function siteScope(args: PromptArgs): Record<string, unknown> {
+  return args.site !== undefined && args.site !== "" ? { site_id: args.site } : {};
+}
+
+function siteName(args: PromptArgs): string {
+  return args.site !== undefined && args.site !== "" ? args.site : "the default site";
+}
+
+function period(args: PromptArgs, fallback: string): string {
+  return args.period !== undefined && args.period !== "" ? args.period : fallback;
+}
+
+function withFilters(filters: Array<FilterType>): Record<string, unknown> {
+  return filters.length > 0 ? { filters } : {};
+}
+
+function prompt(intro: string, steps: Array<PromptStep>, report: string): string {
+  return [
+    intro,
+    "",
+    "Run these tool calls in order. If a call fails with a validation error, apply its suggested fix and retry once.",
+    "",
+    steps.map(renderStep).join("\n\n"),
+    "",
+    report,
+  ].join("\n");
+}
+
+const weeklyTrafficReport: AnalyticsPrompt = {
+  name: "weekly_traffic_report",
+  description: "Weekly traffic report: headline numbers against the previous period, what drove the change, top pages and anomalies",
+  args: { site: siteArg, period: periodArg("last week") },
+  build: args => {
+    const scope = { ...siteScope(args), date_range: period(args, "last week") };
+    return prompt(
+      `Write a traffic report for ${siteName(args)} covering ${scope.date_range}.`,
+      [
+        { purpose: "Headline numbers against the previous period", tool: "plausible_compare", args: { ...scope, metrics: ["visitors", "visits", "pageviews", "bounce_rate", "visit_duration"], comparison: "previous_period", format: "markdown_table" } },
+        { purpose: "Daily trend", tool: "plausible_timeseries", args: { ...scope, metrics: ["visitors", "pageviews"], interval: "day", format: "markdown_table" } },
+        { purpose: "Sources behind the change", tool: "plausible_top_movers", args: { ...scope, dimension: "visit:source", metric: "visitors", comparison: "previous_period", format: "markdown_table" } },
+        { purpose: "Top pages", tool: "plausible_breakdown", args: { ...scope, dimension: "event:page", metrics: ["visitors", "pageviews"], order_by: [["visitors", "desc"]], limit: 10, format: "markdown_table" } },
+        { purpose: "Unusual days", tool: "plausible_detect_anomalies", args: { ...scope, metric: "visitors", interval: "day" } },
+      ],
+      "Then write the report for a non-technical reader: three headline numbers with their change, one paragraph on what drove it (name the sources from step 3), the top 5 pages, and any anomalies with a likely explanation. Keep it under 300 words."
+    );
+  },
+};
+
+const campaignPerformanceReview: AnalyticsPrompt = {
+  name: "campaign_performance_review",
+  description: "Campaign review: traffic, engagement and goal conversions per UTM campaign, or per source and medium for one campaign",
+  args: {
+    site: siteArg,
+    period: periodArg("last 30 days"),
+    campaign: z.string().optional().describe("utm_campaign value to focus on. Leave empty to compare all campaigns"),
+  },
+  build: args => {
+    const campaign = args.campaign !== undefined && args.campaign !== "" ? args.campaign : undefined;
+    const filters: Array<FilterType> = campaign !== undefined ? [["visit:utm_campaign", "is", [campaign]]] : [];
+    const scope = { ...siteScope(args), date_range: period(args, "last 30 days"), ...withFilters(filters) };
+    const dimension = campaign !== undefined ? "visit:utm_source" : "visit:utm_campaign";
+    return prompt(
+      campaign !== undefined
+        ? `Review how the '${campaign}' campaign performed over ${scope.date_range}.`
+        : `Review how all UTM campaigns performed over ${scope.date_range}.`,
+      [
+        { purpose: "Traffic and engagement", tool: "plausible_breakdown", args: { ...scope, dimension, metrics: ["visitors", "visits", "bounce_rate", "visit_duration"], order_by: [["visitors", "desc"]], limit: 20, format: "markdown_table" } },
+        { purpose: "Split by medium", tool: "plausible_breakdown", args: { ...scope, dimension: "visit:utm_medium", metrics: ["visitors", "bounce_rate"], format: "markdown_table" } },
+        { purpose: "Change against the previous period", tool: "plausible_top_movers", args: { ...scope, dimension, metric: "visitors", comparison: "previous_period", format: "markdown_table" } },
+        "Call `plausible_list_goals` for the site. If it has goals, call `plausible_query` with " +
+          `\`dimensions: ["${dimension}", "event:goal"]\` and \`metrics: ["visitors", "group_conversion_rate"]\` over the same period and filters.`,
+      ],
+      "Then summarize: which campaigns (or sources) brought the most engaged visitors, which converted best, and which underperformed. Flag campaigns with high bounce rate and low conversion as candidates to pause. Use a short table plus three recommendations."
+    );
+  },
+};
+
+const contentAudit: AnalyticsPrompt = {
+  name: "content_audit",
+  description: "Content audit: top and underperforming pages by traffic, scroll depth and time on page, and pages gaining or losing readers",
+  args: {
+    site: siteArg,
+    period: periodArg("last 30 days"),
+    section: z.string().optional().describe("Path prefix to audit, e.g. /blog. Leave empty for the whole site"),
+  },
+  build: args => {
+    const section = args.section !== undefined && args.section !== "" ? args.section : undefined;
+    const escaped = section?.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pageFilters: Array<FilterType> = escaped !== undefined ? [["event:page", "matches", [`^${escaped}`]]] : [];
+    const entryFilters: Array<FilterType> = escaped !== undefined ? [["visit:entry_page", "matches", [`^${escaped}`]]] : [];
+    const scope = { ...siteScope(args), date_range: period(args, "last 30 days") };
+    return prompt(
+      `Audit the content ${section !== undefined ? `under ${section} ` : ""}on ${siteName(args)} over ${scope.date_range}.`,
+      [
+        { purpose: "Engagement per page", tool: "plausible_breakdown", args: { ...scope, ...withFilters(pageFilters), dimension: "event:page", metrics: ["visitors", "pageviews", "scroll_depth", "time_on_page"], order_by: [["visitors", "desc"]], limit: 50, format: "markdown_table" } },
+        { purpose: "How well pages work as landing pages", tool: "plausible_breakdown", args: { ...scope, ...withFilters(entryFilters), dimension: "visit:entry_page", metrics: ["visits", "bounce_rate", "visit_duration"], order_by: [["visits", "desc"]], limit: 25, format: "markdown_table" } },
+        { purpose: "Pages gaining or losing readers", tool: "plausible_top_movers", args: { ...scope, ...withFilters(pageFilters), dimension: "event:page", metric: "pageviews", comparison: "previous_period", format: "markdown_table" } },
+      ],
+      "Then group the pages into: top performers (high traffic and engagement), hidden gems (high scroll depth or time on page but little traffic), pages to update (traffic but low scroll depth or high bounce rate), and declining pages from step 3. List at most five pages per group with one sentence of advice each."
+    );
+  },
+};
+
+const conversionDiagnosis: AnalyticsPrompt = {
+  name: "conversion_diagnosis",
+  description: "Conversion diagnosis for one goal: trend against the previous period, conversion by source and device, and anomalies",
+  args: {
+    site: siteArg,
+    goal: z.string().describe("Goal name, as listed by plausible_list_goals"),
+    period: periodArg("last 30 days"),
+  },
+  build: args => {
+    const goal = args.goal ?? "";
+    const goalFilter: Array<FilterType> = [["event:goal", "is", [goal]]];
+    const scope = { ...siteScope(args), date_range: period(args, "last 30 days") };
+    return prompt(
+      `Diagnose conversions for the goal '${goal}' over ${scope.date_range}. Start with \`plausible_list_goals\` and use the exact goal name it returns.`,
+      [
+        { purpose: "Conversions against the previous period", tool: "plausible_compare", args: { ...scope, filters: goalFilter, metrics: ["visitors", "events", "conversion_rate"], comparison: "previous_period", format: "markdown_table" } },
+        { purpose: "Conversions by source", tool: "plausible_breakdown", args: { ...scope, filters: goalFilter, dimension: "visit:source", metrics: ["visitors", "conversion_rate"], order_by: [["visitors", "desc"]], limit: 15, format: "markdown_table" } },
+        { purpose: "Conversions by device", tool: "plausible_breakdown", args: { ...scope, filters: goalFilter, dimension: "visit:device", metrics: ["visitors", "conversion_rate"], format: "markdown_table" } },
+        { purpose: "Days where conversions broke the pattern", tool: "plausible_detect_anomalies", args: { ...scope, filters: goalFilter, metric: "visitors", interval: "day" } },
+        "If the goal ends a known journey (for example /pricing, then a Signup goal, then this goal), run `plausible_funnel` with those steps to find the step where visitors drop off.",
+      ],
+      "Then explain whether conversions went up or down, where the change came from (source, device, specific days or funnel step), and the two or three most likely causes. Separate what the data shows from what you are inferring."
+    );
+  },
+};
+
+const seoLandingPageReview: AnalyticsPrompt = {
+  name: "seo_landing_page_review",
+  description: "SEO review: organic search landing pages, their engagement, search engines, and pages gaining or losing organic traffic",
+  args: { site: siteArg, period: periodArg("last 28 days") },
+  build: args => {
+    const organic: Array<FilterType> = [["visit:channel", "is", ["Organic Search"]]];
+    const scope = { ...siteScope(args), date_range: period(args, "last 28 days"), filters: organic };
+    return prompt(
+      `Review organic search landing pages for ${siteName(args)} over ${scope.date_range}.`,
+      [
+        { purpose: "Organic landing pages", tool: "plausible_breakdown", args: { ...scope, dimension: "visit:entry_page", metrics: ["visitors", "visits", "bounce_rate", "visit_duration"], order_by: [["visitors", "desc"]], limit: 25, format: "markdown_table" } },
+        { purpose: "Search engines", tool: "plausible_breakdown", args: { ...scope, dimension: "visit:source", metrics: ["visitors"], format: "markdown_table" } },
+        { purpose: "Landing pages gaining or losing organic traffic", tool: "plausible_top_movers", args: { ...scope, dimension: "visit:entry_page", metric: "visitors", comparison: "previous_period", format: "markdown_table" } },
+        { purpose: "Organic traffic against last year", tool: "plausible_compare", args: { ...scope, metrics: ["visitors", "bounce_rate"], comparison: "year_over_year", format: "markdown_table" } },
+      ],
+      "Then list the landing pages to protect (high organic traffic, good engagement), to improve (organic traffic but high bounce rate or short visits), and to investigate (biggest losers in step 3). Plausible has no search keyword data here, so don't guess keywords."
+    );
+  },
+};
+
+export const analyticsPrompts: Array<AnalyticsPrompt> = [
+  weeklyTrafficReport,
+  campaignPerformanceReview,
+  contentAudit,
+  conversionDiagnosis,
+  seoLandingPageReview,
+];
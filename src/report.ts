@@ -0,0 +1,190 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, extname, resolve } from "path";
+
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+import { comparisonModes, reportFormats } from "./constants.js";
+import { currentDate, formatIsoDate } from "./dates.js";
+import { escapeHtml, formatHtmlResponse, formatResponse } from "./formatting.js";
+import { PlausibleClient, queryParamsSchema } from "./plausible-client.js";
+import { ValidationError } from "./types.js";
+import { errorText } from "./utils.js";
+
+import type { CliCommand } from "./config.js";
+import type { ComparisonResponse, PlausibleApiResponse } from "./types.js";
+
+// File reports: run the queries in a YAML or JSON report definition and write
+// the results as Markdown or HTML, for cron jobs and stakeholder emails
+
+type ReportFormat = typeof reportFormats[number];
+
+const comparisonSchema = z.enum([...comparisonModes, "none"]);
+
+const sectionSchema = z.object({
+  name: z.string().min(1),
+  title: z.string().min(1).optional(),
+  query: queryParamsSchema.extend({ date_range: queryParamsSchema.shape.date_range.optional() }).strict(),
+  comparison: comparisonSchema.optional(),
+  comparison_date_range: z.tuple([z.string(), z.string()]).optional(),
+}).strict();
+
+const reportDefinitionSchema = z.object({
+  title: z.string().min(1).default("Plausible report"),
+  site_id: z.string().min(1).optional(),
+  date_range: queryParamsSchema.shape.date_range.optional(),
+  comparison: comparisonSchema.optional(),
+  format: z.enum(reportFormats).optional(),
+  output: z.string().min(1).optional(),
+  sections: z.array(sectionSchema).min(1),
+}).strict();
+
+export type ReportDefinition = z.infer<typeof reportDefinitionSchema>;
+type ReportSection = ReportDefinition["sections"][number];
+
+type SectionResult = {
+  section: ReportSection;
+  response?: PlausibleApiResponse | ComparisonResponse;
+  error?: string;
+};
+
+// YAML is a superset of JSON, so one parser reads both
+export async function loadReportDefinition(path: string): Promise<ReportDefinition> {
+  const raw: unknown = parseYaml(await readFile(path, "utf8"));
+  const parsed = reportDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid report definition ${path}: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+// Sections inherit site_id, date_range and comparison from the report
+async function runSection(
+  client: PlausibleClient,
+  definition: ReportDefinition,
+  section: ReportSection
+): Promise<PlausibleApiResponse | ComparisonResponse> {
+  const dateRange = section.query.date_range ?? definition.date_range;
+  if (dateRange === undefined) {
+    throw new ValidationError(
+      "date_range is required",
+      "Set date_range on the section's query or at the top of the report definition."
+    );
+  }
+
+  const query = { ...section.query, site_id: section.query.site_id ?? definition.site_id, date_range: dateRange };
+  const comparison = section.comparison ?? definition.comparison ?? "none";
+  if (comparison === "none") return client.query(query);
+  return client.compare({ ...query, comparison, comparison_date_range: section.comparison_date_range });
+}
+
+export async function runReport(definition: ReportDefinition): Promise<Array<SectionResult>> {
+  const client = new PlausibleClient();
+  const results: Array<SectionResult> = [];
+  // One section at a time keeps the output order and the request rate predictable
+  for (const section of definition.sections) {
+    try {
+      results.push({ section, response: await runSection(client, definition, section) });
+    } catch (error) {
+      results.push({ section, error: errorText(error) });
+    }
+  }
+  return results;
+}
+
+function reportScope(definition: ReportDefinition): string {
+  const parts = [`Generated ${new Date().toISOString()}`];
+  if (definition.site_id !== undefined) parts.push(`site: ${definition.site_id}`);
+  if (definition.date_range !== undefined) {
+    parts.push(`period: ${Array.isArray(definition.date_range) ? definition.date_range.join(" to ") : definition.date_range}`);
+  }
+  return parts.join(" · ");
+}
+
+export function renderMarkdownReport(definition: ReportDefinition, results: Array<SectionResult>): string {
+  const sections = results.map(({ section, response, error }) => [
+    `## ${section.title ?? section.name}`,
+    "",
+    response !== undefined ? formatResponse(response, "markdown_table") : `> **Error:** ${error ?? "unknown error"}`,
+  ].join("\n"));
+  return [`# ${definition.title}`, "", `_${reportScope(definition)}_`, "", sections.join("\n\n"), ""].join("\n");
+}
+
+const htmlStyle = [
+  "body { font-family: -apple-system, 'Segoe UI', sans-serif; color: #1f2937; max-width: 960px; margin: 2rem auto; }",
+  "table { border-collapse: collapse; margin: 0.5rem 0 1.5rem; }",
+  "th, td { border: 1px solid #e5e7eb; padding: 0.3rem 0.6rem; text-align: left; }",
+  "th { background: #f9fafb; }",
+  ".num { text-align: right; font-variant-numeric: tabular-nums; }",
+  ".note, .scope { color: #6b7280; margin: 0.2rem 0; }",
+  ".error { color: #b91c1c; }",
+].join("\n");
+
+export function renderHtmlReport(definition: ReportDefinition, results: Array<SectionResult>): string {
+  const sections = results.map(({ section, response, error }) => [
+    `<section id="${escapeHtml(section.name)}">`,
+    `<h2>${escapeHtml(section.title ?? section.name)}</h2>`,
+    response !== undefined
+      ? formatHtmlResponse(response)
+      : `<p class="error"><strong>Error:</strong> ${escapeHtml(error ?? "unknown error")}</p>`,
+    "</section>",
+  ].join("\n"));
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(definition.title)}</title>`,
+    `<style>\n${htmlStyle}\n</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(definition.title)}</h1>`,
+    `<p class="scope">${escapeHtml(reportScope(definition))}</p>`,
+    ...sections,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function reportFormat(format: string | undefined, output: string | undefined): ReportFormat {
+  if (format !== undefined) {
+    if (!(reportFormats as ReadonlyArray<string>).includes(format)) {
+      throw new Error(`Unknown report format '${format}'. Use one of: ${reportFormats.join(", ")}`);
+    }
+    return format as ReportFormat;
+  }
+  return output !== undefined && [".html", ".htm"].includes(extname(output).toLowerCase()) ? "html" : "markdown";
+}
+
+// `report <definition> [--output path] [--format markdown|html]`. Returns the
+// number of failed sections; the report is still written when some fail.
+// `--output -` prints to stdout even when the definition names a file.
+export async function runReportCommand(command: CliCommand): Promise<number> {
+  const [definitionPath] = command.args;
+  if (definitionPath === undefined) {
+    throw new Error("Usage: mcp-plausible report <definition.yaml> [--output <path>] [--format markdown|html]");
+  }
+
+  const definition = await loadReportDefinition(resolve(definitionPath));
+  const output = (command.output ?? definition.output)?.replace(/\{date\}/g, formatIsoDate(currentDate()));
+  const format = reportFormat(command.format ?? definition.format, output);
+
+  const results = await runReport(definition);
+  const report = format === "html" ? renderHtmlReport(definition, results) : renderMarkdownReport(definition, results);
+  const failed = results.filter(result => result.error !== undefined);
+
+  if (output === undefined || output === "-") {
+    process.stdout.write(report);
+  } else {
+    await mkdir(dirname(resolve(output)), { recursive: true });
+    await writeFile(output, report, "utf8");
+    console.error(`Report written to ${output}`);
+  }
+  for (const { section, error } of failed) {
+    console.error(`Section '${section.name}' failed: ${error ?? "unknown error"}`);
+  }
+  return failed.length;
+}
@@ -0,0 +1,158 @@
+import {
+  maxConcurrentRequests,
+  maxRequestRetries,
+  rateLimitPerHour,
+  requestTimeoutMs,
+} from "./constants.js";
+import { debugLog, sleep } from "./utils.js";
+
+// Rate-limit aware request scheduler: a token bucket sized to the hourly
+// request budget, a cap on concurrent requests, and retries with backoff.
+
+export type SchedulerOptions = {
+  requestsPerHour: number;
+  maxConcurrency: number;
+  maxRetries: number;
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+export type RateLimitStatus = {
+  limit_per_hour: number;
+  remaining: number;
+  active_requests: number;
+  queued_requests: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const retryableStatuses = new Set([429, 500, 502, 503, 504]);
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (header === null || header.trim() === '') return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export class RequestScheduler {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  constructor(private readonly options: SchedulerOptions) {
+    this.tokens = options.requestsPerHour;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 60_000;
+  }
+
+  status(): RateLimitStatus {
+    this.refill();
+    return {
+      limit_per_hour: this.options.requestsPerHour,
+      remaining: Math.floor(this.tokens),
+      active_requests: this.active,
+      queued_requests: this.waiting.length,
+    };
+  }
+
+  async fetch(input: string | URL, init?: RequestInit): Promise<Response> {
+    await this.acquireSlot();
+    try {
+      return await this.fetchWithRetries(input, init);
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async fetchWithRetries(input: string | URL, init?: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.takeToken();
+
+      let response: Response;
+      try {
+        response = await fetch(input, this.withTimeout(init));
+      } catch (error) {
+        // Network failures are retried like 5xx responses
+        if (attempt >= this.options.maxRetries) throw error;
+        await this.backoff(attempt, undefined);
+        continue;
+      }
+
+      if (!retryableStatuses.has(response.status) || attempt >= this.options.maxRetries) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      // Don't hold a tool call for longer than the max delay; let the caller see the error
+      if (retryAfter !== undefined && retryAfter > this.maxDelayMs) return response;
+
+      await response.body?.cancel();
+      await this.backoff(attempt, retryAfter);
+    }
+  }
+
+  // Each attempt gets its own timeout signal
+  private withTimeout(init?: RequestInit): RequestInit | undefined {
+    if (this.options.timeoutMs === undefined) return init;
+    return { ...init, signal: AbortSignal.timeout(this.options.timeoutMs) };
+  }
+
+  private async backoff(attempt: number, retryAfter: number | undefined): Promise<void> {
+    const exponential = this.baseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.baseDelayMs;
+    const delay = Math.min(retryAfter ?? exponential + jitter, this.maxDelayMs);
+    debugLog("SCHEDULER", "Retrying request", { attempt: attempt + 1, delayMs: Math.round(delay) });
+    await sleep(delay);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const rate = this.options.requestsPerHour / HOUR_MS;
+    this.tokens = Math.min(this.options.requestsPerHour, this.tokens + (now - this.lastRefill) * rate);
+    this.lastRefill = now;
+  }
+
+  private async takeToken(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      const waitMs = (1 - this.tokens) / (this.options.requestsPerHour / HOUR_MS);
+      debugLog("SCHEDULER", "Hourly request budget exhausted, waiting", { waitMs: Math.round(waitMs) });
+      await sleep(waitMs);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot over directly
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next !== undefined) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+export const requestScheduler = new RequestScheduler({
+  requestsPerHour: rateLimitPerHour,
+  maxConcurrency: maxConcurrentRequests,
+  maxRetries: maxRequestRetries,
+  timeoutMs: requestTimeoutMs,
+});
@@ -0,0 +1,173 @@
+import {
+  behavioralOperators,
+  caseSensitiveOperators,
+  eventDimensions,
+  filterOperators,
+  logicalOperators,
+  metricsWithRequirements,
+  sessionMetrics,
+  timeDimensions,
+  validMetrics,
+  visitDimensions,
+} from "./constants.js";
+
+import type { SessionMetric } from "./constants.js";
+
+// Metric, dimension and filter reference published as MCP resources. Built
+// from the same constants validation uses, so the two can't drift apart.
+
+type ValidMetric = typeof validMetrics[number];
+type EventDimension = typeof eventDimensions[number];
+type VisitDimension = typeof visitDimensions[number];
+type TimeDimension = typeof timeDimensions[number];
+type FilterOperator = typeof filterOperators[number];
+
+export type MetricEntry = {
+  name: string;
+  description: string;
+  requires?: string;
+  incompatible_with?: Array<string>;
+};
+
+export type DimensionEntry = {
+  name: string;
+  group: "event" | "visit" | "time" | "custom_property";
+  description: string;
+  incompatible_with?: Array<string>;
+};
+
+const metricDescriptions: Record<ValidMetric, string> = {
+  visitors: "Unique visitors",
+  visits: "Number of visits (sessions)",
+  pageviews: "Number of pageviews",
+  views_per_visit: "Average pageviews per visit",
+  bounce_rate: "Percentage of visits that viewed a single page",
+  visit_duration: "Average visit duration in seconds",
+  events: "Number of events, pageviews included",
+  scroll_depth: "Average maximum scroll depth, in percent",
+  percentage: "Each group's share of all visitors, in percent",
+  conversion_rate: "Percentage of all visitors who completed the goal",
+  group_conversion_rate: "Percentage of visitors in each group who completed the goal",
+  average_revenue: "Average revenue per conversion of a revenue goal",
+  total_revenue: "Total revenue from a revenue goal",
+  time_on_page: "Average time on page in seconds",
+};
+
+const eventDimensionDescriptions: Record<EventDimension, string> = {
+  "event:goal": "Goal name (see plausible://sites/{site}/goals)",
+  "event:page": "Page path, e.g. /pricing",
+  "event:hostname": "Hostname the event was recorded on",
+};
+
+const visitDimensionDescriptions: Record<VisitDimension, string> = {
+  "visit:entry_page": "First page of the visit",
+  "visit:exit_page": "Last page of the visit",
+  "visit:source": "Traffic source, e.g. Google or Twitter",
+  "visit:referrer": "Full referrer URL",
+  "visit:channel": "Acquisition channel, e.g. Organic Search",
+  "visit:utm_medium": "utm_medium query parameter",
+  "visit:utm_source": "utm_source query parameter",
+  "visit:utm_campaign": "utm_campaign query parameter",
+  "visit:utm_content": "utm_content query parameter",
+  "visit:utm_term": "utm_term query parameter",
+  "visit:device": "Device type: Desktop, Mobile, Tablet",
+  "visit:browser": "Browser name",
+  "visit:browser_version": "Browser version",
+  "visit:os": "Operating system",
+  "visit:os_version": "Operating system version",
+  "visit:country": "ISO 3166-1 alpha-2 country code",
+  "visit:region": "ISO 3166-2 region code",
+  "visit:city": "GeoNames city ID",
+  "visit:country_name": "Country name",
+  "visit:region_name": "Region name",
+  "visit:city_name": "City name",
+};
+
+const timeDimensionDescriptions: Record<TimeDimension, string> = {
+  time: "Time bucket chosen automatically from the date range",
+  "time:hour": "Hour bucket",
+  "time:day": "Day bucket",
+  "time:week": "Week bucket",
+  "time:month": "Month bucket",
+};
+
+const filterOperatorDescriptions: Record<FilterOperator, string> = {
+  is: "Equal to any of the values",
+  is_not: "Equal to none of the values",
+  contains: "Contains any of the values as a substring",
+  contains_not: "Contains none of the values as a substring",
+  matches: "Matches any of the values as a regular expression",
+  matches_not: "Matches none of the values as a regular expression",
+};
+
+// Mirrors validateSessionMetricsWithEventDimensions
+const sessionIncompatibilities = ["event:* dimensions"];
+
+function isSessionMetric(metric: string): boolean {
+  return sessionMetrics.includes(metric as SessionMetric);
+}
+
+export function metricCatalog(): Array<MetricEntry> {
+  const requirements: Partial<Record<string, { requires: string; type: string }>> = metricsWithRequirements;
+  return validMetrics.map(name => {
+    const requirement = requirements[name];
+    return {
+      name,
+      description: metricDescriptions[name],
+      ...(requirement !== undefined ? { requires: `${requirement.requires} (${requirement.type})` } : {}),
+      ...(isSessionMetric(name) ? { incompatible_with: sessionIncompatibilities } : {}),
+    };
+  });
+}
+
+export function dimensionCatalog(): Array<DimensionEntry> {
+  const sessionOnly = [`session metrics: ${sessionMetrics.join(", ")}`];
+  return [
+    ...eventDimensions.map(name => ({
+      name,
+      group: "event" as const,
+      description: eventDimensionDescriptions[name],
+      incompatible_with: sessionOnly,
+    })),
+    ...visitDimensions.map(name => ({ name, group: "visit" as const, description: visitDimensionDescriptions[name] })),
+    ...timeDimensions.map(name => ({
+      name,
+      group: "time" as const,
+      description: timeDimensionDescriptions[name],
+    })),
+    {
+      name: "event:props:<key>",
+      group: "custom_property",
+      description: "Custom property value (see plausible://sites/{site}/properties for the keys)",
+      incompatible_with: sessionOnly,
+    },
+  ];
+}
+
+export function filterCatalog(): Record<string, unknown> {
+  return {
+    simple: {
+      syntax: '[dimension, operator, [values], {"case_sensitive": false}?]',
+      operators: filterOperators.map(name => ({ name, description: filterOperatorDescriptions[name] })),
+      case_sensitive_operators: caseSensitiveOperators,
+      example: ["visit:country", "is", ["DE", "FR"]],
+    },
+    logical: {
+      syntax: "[operator, [filters]]",
+      operators: logicalOperators,
+      notes: "'not' takes exactly one filter; 'and' and 'or' take at least one",
+      example: ["or", [["visit:source", "is", ["Google"]], ["visit:source", "is", ["Bing"]]]],
+    },
+    behavioral: {
+      syntax: '[operator, "goal" | "page", value]',
+      operators: behavioralOperators,
+      notes: "Page values are paths starting with /; goal values are goal names",
+      example: ["has_done", "goal", "Signup"],
+    },
+    segment: {
+      syntax: '["is", "segment", [segment_id]]',
+      notes: "Segment IDs come from plausible://sites/{site}/segments",
+      example: ["is", "segment", [42]],
+    },
+  };
+}
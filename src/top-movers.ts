@@ -0,0 +1,79 @@
+import { compareMetric } from "./compare.js";
+import { countMetrics } from "./constants.js";
+import { metricValue, round } from "./utils.js";
+
+import type { CountMetric } from "./constants.js";
+import type {
+  MetricComparison,
+  MoverRow,
+  PlausibleApiResponse,
+  TopMoversParams,
+  TopMoversResponse,
+} from "./types.js";
+
+// Top movers: rank a dimension's values by how much a metric changed between
+// two periods, reporting values that appeared or disappeared separately
+
+export type MoverResponses = {
+  current: PlausibleApiResponse;
+  previous: PlausibleApiResponse;
+  currentTotal: PlausibleApiResponse;
+  previousTotal: PlausibleApiResponse;
+};
+
+type MoverLists = Pick<
+  TopMoversResponse,
+  'total' | 'by_absolute_change' | 'by_relative_change' | 'new_entries' | 'dropped_entries' | 'excluded_count'
+>;
+
+function valuesByKey(response: PlausibleApiResponse): Map<string, number> {
+  return new Map(response.results.map(row => [row.dimensions[0] ?? '', metricValue(row.metrics[0]) ?? 0]));
+}
+
+function totalValue(response: PlausibleApiResponse): number | null {
+  return metricValue(response.results[0]?.metrics[0]);
+}
+
+// Only counts add up across dimension values, so only they get a contribution
+function contribution(row: MetricComparison, total: MetricComparison, isCount: boolean): number | null {
+  if (!isCount || row.change === null || total.change === null || total.change === 0) return null;
+  return round((row.change / total.change) * 100, 2);
+}
+
+function byMagnitude<T>(select: (row: T) => number | null): (a: T, b: T) => number {
+  return (a, b) => Math.abs(select(b) ?? 0) - Math.abs(select(a) ?? 0);
+}
+
+export function rankMovers(params: TopMoversParams, responses: MoverResponses): MoverLists {
+  const isCount = countMetrics.includes(params.metric as CountMetric);
+  const current = valuesByKey(responses.current);
+  const previous = valuesByKey(responses.previous);
+  const total = compareMetric(totalValue(responses.currentTotal), totalValue(responses.previousTotal));
+
+  // For counts a value missing from one period had zero; otherwise it had no data
+  const fill = isCount ? 0 : null;
+  const rows: Array<MoverRow> = [...new Set([...current.keys(), ...previous.keys()])].map(value => {
+    const comparison = compareMetric(current.get(value) ?? fill, previous.get(value) ?? fill);
+    return { value, ...comparison, contribution_percent: contribution(comparison, total, isCount) };
+  });
+
+  const eligible = rows.filter(row => Math.max(row.current ?? 0, row.previous ?? 0) >= params.min_volume);
+  const isNew = (row: MoverRow): boolean => (row.previous ?? 0) === 0 && (row.current ?? 0) !== 0;
+  const isDropped = (row: MoverRow): boolean => (row.current ?? 0) === 0 && (row.previous ?? 0) !== 0;
+  const changed = eligible.filter(row => !isNew(row) && !isDropped(row));
+
+  return {
+    total,
+    by_absolute_change: changed
+      .filter(row => (row.change ?? 0) !== 0)
+      .sort(byMagnitude(row => row.change))
+      .slice(0, params.limit),
+    by_relative_change: changed
+      .filter(row => (row.change_percent ?? 0) !== 0)
+      .sort(byMagnitude(row => row.change_percent))
+      .slice(0, params.limit),
+    new_entries: eligible.filter(isNew).sort(byMagnitude(row => row.current)).slice(0, params.limit),
+    dropped_entries: eligible.filter(isDropped).sort(byMagnitude(row => row.previous)).slice(0, params.limit),
+    excluded_count: rows.length - eligible.length,
+  };
+}
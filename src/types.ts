@@ -1,15 +1,32 @@
 // Type definitions for Plausible Analytics MCP Server
 
+import type {
+  anomalyIntervals,
+  anomalyMethods,
+  anomalySeverities,
+  cacheModes,
+  comparisonModes,
+  exportFormats,
+  funnelStepTypes,
+  outputFormats,
+  timeseriesIntervals,
+} from "./constants.js";
+
 // Filter types
+export type FilterModifiers = {
+  case_sensitive?: boolean;
+};
+
 export type SimpleFilter = [
   string, // dimension
   string, // operator
-  string | Array<string> // value(s)
+  string | Array<string>, // value(s)
+  FilterModifiers? // optional modifiers
 ];
 
 export type LogicalFilter = [
   string, // logical operator
-  Array<SimpleFilter | LogicalFilter | BehavioralFilter> // nested filters
+  Array<SimpleFilter | LogicalFilter | BehavioralFilter | SegmentFilter> // nested filters
 ];
 
 export type BehavioralFilter = [
@@ -41,6 +58,98 @@ export type PlausibleQuery = {
   };
 };
 
+// Request-level flags stripped by executeQuery before the query is sent
+export type CacheMode = typeof cacheModes[number];
+
+export type QueryOptions = {
+  debug?: boolean;
+  cache?: CacheMode;
+};
+
+// Client-side pagination, handled by PlausibleClient.query
+export type PaginationOptions = {
+  auto_paginate?: boolean;
+  max_rows?: number;
+};
+
+// Query as accepted by the tools: site_id may fall back to PLAUSIBLE_DEFAULT_SITE
+export type QueryParams = Omit<PlausibleQuery, "site_id"> & QueryOptions & PaginationOptions & {
+  site_id?: string;
+};
+
+// Output options shared by all query tools (never sent to the API)
+export type OutputFormat = typeof outputFormats[number];
+
+export type OutputOptions = {
+  format?: OutputFormat;
+};
+
+// Convenience tool parameter types
+export type AggregateParams = Pick<QueryParams, "site_id" | "metrics" | "date_range" | "filters" | "cache">;
+
+export type BreakdownParams = AggregateParams & PaginationOptions & {
+  dimension: string;
+  order_by?: PlausibleQuery["order_by"];
+  limit?: number;
+};
+
+export type TimeseriesParams = AggregateParams & {
+  interval: typeof timeseriesIntervals[number];
+};
+
+export type CompareParams = QueryParams & {
+  comparison: typeof comparisonModes[number];
+  comparison_date_range?: [string, string];
+};
+
+export type FunnelStep = {
+  type: typeof funnelStepTypes[number];
+  value: string;
+};
+
+export type FunnelParams = Pick<QueryParams, "site_id" | "date_range" | "filters" | "cache"> & {
+  steps: Array<FunnelStep>;
+};
+
+export type AnomalyParams = Pick<QueryParams, "site_id" | "date_range" | "filters" | "cache"> & {
+  metric: string;
+  interval: typeof anomalyIntervals[number];
+  dimension?: string;
+  limit: number;
+  method: typeof anomalyMethods[number];
+  threshold: number;
+  window: number;
+  seasonal: boolean;
+};
+
+// plausible_export: a query plus the file to write its rows to
+export type ExportFormat = typeof exportFormats[number];
+
+export type ExportParams = QueryParams & {
+  format: ExportFormat;
+  filename?: string;
+};
+
+// plausible_sql: read-only SQL against the local warehouse
+export type SqlParams = {
+  sql: string;
+  max_rows: number;
+};
+
+export type TopMoversParams = Pick<CompareParams, "site_id" | "date_range" | "filters" | "cache" | "comparison" | "comparison_date_range"> & {
+  dimension: string;
+  metric: string;
+  min_volume: number;
+  limit: number;
+};
+
+export type ResolvedDateRange = {
+  expression: string;
+  date_range: [string, string];
+  timezone: string;
+  reference_date: string;
+};
+
 // API Response types
 export type PlausibleApiResponse = {
   results: Array<{
@@ -50,14 +159,300 @@ export type PlausibleApiResponse = {
   meta?: {
     time_labels?: Array<string>;
     total_rows?: number;
+    // Set by auto-pagination when rows beyond the row ceiling were left out
+    truncated?: boolean;
+    // Set when date_range was given as a natural-language expression
+    resolved_date_range?: ResolvedDateRange;
   };
   query: PlausibleQuery;
 };
 
+export type MetricComparison = {
+  current: number | null;
+  previous: number | null;
+  change: number | null;
+  change_percent: number | null;
+};
+
+export type ComparisonResponse = {
+  current_period: [string, string];
+  comparison_period: [string, string];
+  results: Array<{
+    dimensions: Array<string>;
+    metrics: Record<string, MetricComparison>;
+  }>;
+  query: PlausibleQuery;
+};
+
+export type MoverRow = MetricComparison & {
+  value: string;
+  // Share of the total change, for count metrics
+  contribution_percent: number | null;
+};
+
+export type TopMoversResponse = {
+  dimension: string;
+  metric: string;
+  current_period: [string, string];
+  comparison_period: [string, string];
+  total: MetricComparison;
+  by_absolute_change: Array<MoverRow>;
+  by_relative_change: Array<MoverRow>;
+  new_entries: Array<MoverRow>;
+  dropped_entries: Array<MoverRow>;
+  // Values below min_volume in both periods
+  excluded_count: number;
+  query: PlausibleQuery;
+};
+
+// Returned by plausible_export in place of the rows
+export type ExportSummary = {
+  path: string;
+  format: ExportFormat;
+  rows: number;
+  columns: Array<string>;
+  bytes: number;
+  total_rows?: number;
+  truncated: boolean;
+  query: PlausibleQuery;
+};
+
+// Rows are arrays in column order, since a join can repeat a column name
+export type SqlResponse = {
+  sql: string;
+  columns: Array<string>;
+  rows: Array<Array<unknown>>;
+  row_count: number;
+  truncated: boolean;
+};
+
+// Rates are percentages; null when the previous step had no visitors
+export type FunnelStepResult = FunnelStep & {
+  step: number;
+  visitors: number;
+  conversion_rate: number | null;
+  overall_conversion_rate: number | null;
+  drop_off: number;
+  drop_off_rate: number | null;
+};
+
+export type FunnelResponse = {
+  date_range: PlausibleQuery['date_range'];
+  results: Array<FunnelStepResult>;
+  overall_conversion_rate: number | null;
+  query: PlausibleQuery;
+};
+
+export type Anomaly = {
+  date: string;
+  // Value of the breakdown dimension, when one was requested
+  dimension_value?: string;
+  actual: number;
+  expected: number;
+  deviation_percent: number | null;
+  score: number;
+  direction: "spike" | "drop";
+  severity: typeof anomalySeverities[number];
+};
+
+export type AnomalyResponse = {
+  metric: string;
+  interval: typeof anomalyIntervals[number];
+  method: typeof anomalyMethods[number];
+  analyzed_range: [string, string];
+  baseline: {
+    window: number;
+    seasonal: boolean;
+    threshold: number;
+  };
+  series_checked: number;
+  anomalies: Array<Anomaly>;
+  query: PlausibleQuery;
+};
+
+// Credentials used for one site's requests
+export type SiteCredentials = {
+  apiKey: string;
+  apiUrl: string;
+  sitesApiUrl: string;
+  match?: string; // sites config pattern that selected these credentials
+};
+
+// Sites API types
+export type PlausibleSite = {
+  domain: string;
+  timezone: string;
+};
+
+export type SitesApiMeta = {
+  after: string | null;
+  before: string | null;
+  limit: number;
+};
+
+export type PlausibleSitesResponse = {
+  sites: Array<PlausibleSite>;
+  meta: SitesApiMeta;
+};
+
+export type PlausibleGoal = {
+  id: number;
+  display_name: string;
+  goal_type: "event" | "page";
+  event_name: string | null;
+  page_path: string | null;
+};
+
+export type PlausibleGoalsResponse = {
+  goals: Array<PlausibleGoal>;
+  meta: SitesApiMeta;
+};
+
+export type PlausibleSegment = {
+  id: number;
+  name: string;
+  type: "personal" | "site";
+  segment_data?: unknown;
+};
+
+export type PlausibleSegmentsResponse = {
+  segments: Array<PlausibleSegment>;
+};
+
+export type PlausibleCustomPropsResponse = {
+  custom_properties: Array<{ property: string }>;
+};
+
+// Per-site goal and property catalog used for discovery and validation
+export type SiteGoals = {
+  source: "sites_api" | "query";
+  goals: Array<string>;
+  details?: Array<PlausibleGoal>;
+};
+
+export type SiteProperties = {
+  source: "sites_api" | "unavailable";
+  properties: Array<string>;
+};
+
+export type ListPropertiesParams = {
+  site_id?: string;
+  property?: string;
+  date_range?: PlausibleQuery["date_range"];
+};
+
+export type PropertyValue = {
+  value: string;
+  visitors: number;
+};
+
+export type SiteCatalog = {
+  goals?: Array<string>;
+  properties?: Array<string>;
+  segments?: Array<PlausibleSegment>;
+};
+
+// Query lint results: problems validation would reject, with a corrected query
+export type LintIssue = {
+  rule: string;
+  message: string;
+  fix?: string;
+};
+
+export type LintError = {
+  message: string;
+  details?: string;
+};
+
+export type QueryLintResult = {
+  valid: boolean;
+  error?: LintError;
+  issues: Array<LintIssue>;
+  suggested_query?: PlausibleQuery;
+  remaining_error?: LintError;
+};
+
 // Error class
 export class ValidationError extends Error {
+  // Set when the failing query could be linted for a suggested fix
+  lint?: QueryLintResult;
+
   constructor(message: string, public details?: string) {
     super(message);
     this.name = 'ValidationError';
   }
+}
+
+// Raised when a server-side policy (site allow/deny lists, blocked dimensions,
+// query limits) blocks a query. Changing the query is the only way around it.
+export class PolicyError extends Error {
+  constructor(message: string, public rule: string, public details?: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+// API errors. `retryable` tells the caller whether sending the same request
+// again can succeed; `remediation` tells it what to do instead.
+export class PlausibleApiError extends Error {
+  readonly retryable: boolean = false;
+
+  constructor(message: string, public status?: number, public remediation?: string) {
+    super(message);
+    this.name = 'PlausibleApiError';
+  }
+}
+
+export class AuthenticationError extends PlausibleApiError {
+  constructor(message: string, status: number) {
+    super(message, status, 'Check that PLAUSIBLE_API_KEY is valid, not revoked, and allowed to use this API. Retrying with the same key will fail the same way.');
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class SiteNotFoundError extends PlausibleApiError {
+  constructor(message: string, status: number) {
+    super(message, status, 'Check the site_id spelling (it is the domain as registered in Plausible). Use plausible_list_sites to see the sites this API key can access.');
+    this.name = 'SiteNotFoundError';
+  }
+}
+
+export class RateLimitError extends PlausibleApiError {
+  override readonly retryable = true;
+
+  constructor(message: string, public retryAfterMs?: number) {
+    super(
+      message,
+      429,
+      retryAfterMs === undefined
+        ? 'The Plausible request budget is exhausted. Wait before sending more queries and avoid repeating queries unnecessarily.'
+        : `The Plausible request budget is exhausted. Wait ${String(Math.ceil(retryAfterMs / 1000))} seconds before sending more queries.`
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+export class InvalidQueryError extends PlausibleApiError {
+  constructor(message: string) {
+    super(message, 400, 'Plausible rejected the query. Fix the parameters named in the error message; sending the same query again will fail the same way.');
+    this.name = 'InvalidQueryError';
+  }
+}
+
+export class UpstreamError extends PlausibleApiError {
+  override readonly retryable = true;
+
+  constructor(message: string, status?: number) {
+    super(message, status, 'Plausible is temporarily unavailable. Try again in a few minutes.');
+    this.name = 'UpstreamError';
+  }
+}
+
+export class NetworkTimeoutError extends PlausibleApiError {
+  override readonly retryable = true;
+
+  constructor(message: string) {
+    super(message, undefined, 'The request to Plausible timed out or could not connect. Try again, or narrow the query (shorter date range, fewer dimensions, smaller limit).');
+    this.name = 'NetworkTimeoutError';
+  }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { inspect } from "util";
 
 import { debugStdio } from "./constants.js";
+import { PolicyError, ValidationError } from "./types.js";
 
 // Utility functions
 
@@ -13,4 +14,72 @@ export function debugLog(category: string, message: string, data?: unknown): voi
   if (data !== undefined) {
     console.error("  DATA:", inspect(data, { depth: 3, colors: true }));
   }
-}
\ No newline at end of file
+}
+
+// One-line error message for CLI output, with the fix hint for validation and policy errors
+export function errorText(error: unknown): string {
+  if (error instanceof ValidationError || error instanceof PolicyError) {
+    return error.details !== undefined && error.details !== "" ? `${error.message}. ${error.details}` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Revenue metrics come back as { value, currency }; arithmetic uses the amount
+export function metricValue(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  const amount = (value as { value?: unknown } | null | undefined)?.value;
+  return typeof amount === "number" ? amount : null;
+}
+
+export function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      ));
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+// Suggest the closest candidate for a misspelled name, if any is reasonably close
+export function findClosestMatch(value: string, candidates: Array<string>): string | undefined {
+  const needle = value.toLowerCase();
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = levenshteinDistance(needle, candidate.toLowerCase());
+    if (best === undefined || distance < best.distance) {
+      best = { candidate, distance };
+    }
+  }
+
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+  return best !== undefined && best.distance <= maxDistance ? best.candidate : undefined;
+}
+
+// Case-insensitive glob match where * matches any run of characters
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
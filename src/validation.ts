@@ -1,9 +1,33 @@
-import { sessionMetrics, predefinedDateRanges } from "./constants.js";
-import { hasFilterForDimension } from "./filters.js";
+import {
+  sessionMetrics,
+  predefinedDateRanges,
+  behavioralOperators,
+  caseSensitiveOperators,
+  eventDimensions,
+  visitDimensions,
+} from "./constants.js";
+import {
+  collectFilterDimensions,
+  collectGoalNames,
+  collectSegmentIds,
+  hasFilterForDimension,
+  isSegmentFilter,
+} from "./filters.js";
+import { enforcePolicy } from "./policy.js";
 import { ValidationError } from "./types.js";
+import { findClosestMatch } from "./utils.js";
 
 import type { SessionMetric } from "./constants.js";
-import type { FilterType, PlausibleQuery } from "./types.js";
+import type {
+  BehavioralFilter,
+  FilterType,
+  LogicalFilter,
+  PlausibleQuery,
+  PlausibleSegment,
+  SegmentFilter,
+  SimpleFilter,
+  SiteCatalog,
+} from "./types.js";
 
 // Validation functions for Plausible Analytics query parameters
 
@@ -92,9 +116,7 @@ export function validateSessionMetricsWithEventDimensions(
   dimensions?: Array<string>
 ): void {
   const hasSessionMetrics = metrics.some(m => sessionMetrics.includes(m as SessionMetric));
-  const hasEventDimensions = dimensions?.some(d => 
-    d.startsWith('event:') || d.startsWith('time:')
-  ) ?? false;
+  const hasEventDimensions = dimensions?.some(d => d.startsWith('event:')) ?? false;
 
   if (hasSessionMetrics && hasEventDimensions) {
     const sessionMetricsUsed = metrics.filter(m => sessionMetrics.includes(m as SessionMetric));
@@ -126,8 +148,8 @@ export function validateDateRange(dateRange: string | [string, string]): void {
   if (typeof dateRange === 'string') {
     if (!predefinedDateRanges.includes(dateRange as typeof predefinedDateRanges[number])) {
       throw new ValidationError(
-        `Invalid predefined date range: ${dateRange}`,
-        `Must be one of: ${predefinedDateRanges.join(', ')}`
+        `Invalid date range: ${dateRange}`,
+        `Use one of the predefined ranges (${predefinedDateRanges.join(', ')}), a [start_date, end_date] pair in YYYY-MM-DD format, or an expression such as 'yesterday', 'last week', 'last 14 days', 'this month so far', 'Q3 2025' or 'since 2026-01-01'.`
       );
     }
   } else if (Array.isArray(dateRange)) {
@@ -149,6 +171,198 @@ export function validateDateRange(dateRange: string | [string, string]): void {
   }
 }
 
+function unknownNameError(kind: string, name: string, known: Array<string>): ValidationError {
+  const suggestion = findClosestMatch(name, known);
+  const hint = suggestion !== undefined ? `Did you mean '${suggestion}'? ` : '';
+  return new ValidationError(
+    `Unknown ${kind} '${name}'`,
+    `${hint}Known ${kind} names for this site: ${known.join(', ')}`
+  );
+}
+
+// Deep filter validation. Errors carry the JSON path of the offending node
+// (e.g. filters[1][1][0]) in their details.
+
+const filterDimensions: Array<string> = [...eventDimensions, ...visitDimensions];
+
+function filterError(path: string, message: string, hint: string): ValidationError {
+  return new ValidationError(message, `At ${path}: ${hint}`);
+}
+
+function validateFilterDimension(dimension: string, path: string): void {
+  if (filterDimensions.includes(dimension) || /^event:props:.+/.test(dimension)) return;
+
+  const suggestion = findClosestMatch(dimension, filterDimensions);
+  const hint = suggestion !== undefined ? `Did you mean '${suggestion}'? ` : '';
+  throw filterError(
+    path,
+    `Unknown filter dimension '${dimension}'`,
+    `${hint}Filter on an event:* or visit:* dimension, or event:props:<key> for custom properties.`
+  );
+}
+
+function validateFilterPatterns(values: string | Array<string>, path: string): void {
+  const patterns = Array.isArray(values) ? values : [values];
+  patterns.forEach((pattern, index) => {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw filterError(
+        Array.isArray(values) ? `${path}[${String(index)}]` : path,
+        `Invalid regular expression '${pattern}'`,
+        `${reason}. matches and matches_not take regular expressions; use contains for plain substrings.`
+      );
+    }
+  });
+}
+
+function validateSimpleFilter(filter: SimpleFilter, path: string): void {
+  const [dimension, operator, values, modifiers] = filter;
+  validateFilterDimension(dimension, `${path}[0]`);
+
+  if (operator === 'matches' || operator === 'matches_not') {
+    validateFilterPatterns(values, `${path}[2]`);
+  }
+
+  if (modifiers?.case_sensitive !== undefined &&
+      !caseSensitiveOperators.includes(operator as typeof caseSensitiveOperators[number])) {
+    throw filterError(
+      `${path}[3]`,
+      `Filter modifier case_sensitive is not supported with operator '${operator}'`,
+      `case_sensitive can only be used with: ${caseSensitiveOperators.join(', ')}. For regular expressions, use an inline (?i) flag instead.`
+    );
+  }
+}
+
+function validateBehavioralFilter(filter: BehavioralFilter, path: string, goals?: Array<string>): void {
+  const [operator, type, value] = filter;
+
+  if (type === 'page' && !value.startsWith('/')) {
+    throw filterError(
+      `${path}[2]`,
+      `Invalid page path '${value}' in ${operator} filter`,
+      'Page values are paths starting with "/", e.g. "/pricing".'
+    );
+  }
+
+  if (type === 'goal' && goals !== undefined && goals.length > 0 && !goals.includes(value)) {
+    const error = unknownNameError('goal', value, goals);
+    throw filterError(`${path}[2]`, error.message, error.details ?? '');
+  }
+}
+
+function validateSegmentFilter(filter: SegmentFilter, path: string): void {
+  const ids = filter[2];
+  if (ids.length === 0 || !ids.every(id => Number.isInteger(id) && id > 0)) {
+    throw filterError(
+      `${path}[2]`,
+      'Segment filter must list one or more segment IDs',
+      'Use ["is", "segment", [segment_id]] with the numeric IDs returned by plausible_list_segments.'
+    );
+  }
+}
+
+function validateLogicalFilter(filter: LogicalFilter, path: string, goals?: Array<string>): void {
+  const [operator, children] = filter;
+
+  if (operator === 'not' && children.length !== 1) {
+    throw filterError(
+      path,
+      `'not' must wrap exactly one filter, got ${String(children.length)}`,
+      'Combine several filters with ["and", [...]] or ["or", [...]] and negate that single filter.'
+    );
+  }
+  if (children.length === 0) {
+    throw filterError(path, `'${operator}' must contain at least one filter`, 'Remove the empty group or add filters to it.');
+  }
+
+  children.forEach((child, index) => {
+    validateFilterNode(child, `${path}[1][${String(index)}]`, goals);
+  });
+}
+
+function validateFilterNode(filter: FilterType, path: string, goals?: Array<string>): void {
+  if (filter.length === 2 && Array.isArray(filter[1])) {
+    validateLogicalFilter(filter, path, goals);
+  } else if (isSegmentFilter(filter)) {
+    validateSegmentFilter(filter, path);
+  } else if (behavioralOperators.includes(filter[0] as typeof behavioralOperators[number])) {
+    validateBehavioralFilter(filter as BehavioralFilter, path, goals);
+  } else {
+    validateSimpleFilter(filter as SimpleFilter, path);
+  }
+}
+
+// Walk nested logical, behavioral and segment filters. Goal names are only
+// checked when the site's goal list is known.
+export function validateFilters(filters?: Array<FilterType>, goals?: Array<string>): void {
+  filters?.forEach((filter, index) => {
+    validateFilterNode(filter, `filters[${String(index)}]`, goals);
+  });
+}
+
+export function validateKnownGoals(
+  filters: Array<FilterType> | undefined,
+  goals: Array<string>
+): void {
+  for (const { name, caseSensitive } of collectGoalNames(filters)) {
+    const known = caseSensitive
+      ? goals.includes(name)
+      : goals.some(goal => goal.toLowerCase() === name.toLowerCase());
+    if (!known) {
+      throw unknownNameError('goal', name, goals);
+    }
+  }
+}
+
+export function validateKnownProperties(
+  dimensions: Array<string> | undefined,
+  filters: Array<FilterType> | undefined,
+  properties: Array<string>
+): void {
+  const propertyKeys = [...(dimensions ?? []), ...collectFilterDimensions(filters)]
+    .filter(d => d.startsWith('event:props:'))
+    .map(d => d.slice('event:props:'.length));
+
+  for (const key of propertyKeys) {
+    if (!properties.includes(key)) {
+      throw unknownNameError('property', key, properties);
+    }
+  }
+}
+
+export function validateKnownSegments(
+  filters: Array<FilterType> | undefined,
+  segments: Array<PlausibleSegment>
+): void {
+  for (const id of collectSegmentIds(filters)) {
+    if (!segments.some(segment => segment.id === id)) {
+      const known = segments.map(segment => `${String(segment.id)} (${segment.name})`);
+      throw new ValidationError(
+        `Unknown segment ${String(id)}`,
+        `Known segments for this site: ${known.join(', ')}. Use plausible_list_segments to look up segment IDs.`
+      );
+    }
+  }
+}
+
+// Check goal names, property keys and segment IDs against what the site actually has configured
+export function validateSiteCatalog(
+  params: { dimensions?: Array<string>; filters?: Array<FilterType> },
+  catalog: SiteCatalog
+): void {
+  if (catalog.goals !== undefined && catalog.goals.length > 0) {
+    validateKnownGoals(params.filters, catalog.goals);
+  }
+  if (catalog.properties !== undefined && catalog.properties.length > 0) {
+    validateKnownProperties(params.dimensions, params.filters, catalog.properties);
+  }
+  if (catalog.segments !== undefined && catalog.segments.length > 0) {
+    validateKnownSegments(params.filters, catalog.segments);
+  }
+}
+
 export function validateAllParameters(params: {
   site_id?: string;
   metrics?: Array<string>;
@@ -156,21 +370,28 @@ export function validateAllParameters(params: {
   dimensions?: Array<string>;
   filters?: Array<FilterType>;
   include?: PlausibleQuery['include'];
-}): void {
+  pagination?: PlausibleQuery['pagination'];
+}, catalog?: SiteCatalog): void {
   // Required parameters
-  if (!params.site_id) {
+  if (params.site_id === undefined || params.site_id === '') {
     throw new ValidationError('site_id is required');
   }
-  if (!params.metrics || params.metrics.length === 0) {
+  if (params.metrics === undefined || params.metrics.length === 0) {
     throw new ValidationError('At least one metric is required');
   }
-  if (!params.date_range) {
+  if (params.date_range === undefined) {
     throw new ValidationError('date_range is required');
   }
 
   // Validate date range
   validateDateRange(params.date_range);
+
+  // Server-side guardrails: site access, blocked dimensions and query limits
+  enforcePolicy({ ...params, site_id: params.site_id, date_range: params.date_range });
   
+  // Validate filter structure, dimensions, patterns and behavioral values
+  validateFilters(params.filters, catalog?.goals);
+
   // Validate metric requirements
   validateMetricRequirements(params.metrics, params.dimensions, params.filters);
   
@@ -179,4 +400,9 @@ export function validateAllParameters(params: {
   
   // Validate time labels
   validateTimeLabelRequirements(params.include, params.dimensions);
+
+  // Validate goals and properties against the site's catalog, when known
+  if (catalog !== undefined) {
+    validateSiteCatalog(params, catalog);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { autoPaginateMaxRows, defaultSiteId, warehouseConfig } from "./constants.js";
+import { addDays, currentDate, formatIsoDate, parseIsoDate } from "./dates.js";
+import { loadSiteCatalog } from "./discovery.js";
+import { validateWithLint } from "./lint.js";
+import { executePaginatedQuery } from "./pagination.js";
+import { errorText, metricValue } from "./utils.js";
+import { ensureDatasetTable, openWarehouse, replaceDays, syncedThrough, warehouseTable } from "./warehouse.js";
+
+import type { CliCommand, WarehouseDataset } from "./config.js";
+import type { PlausibleApiResponse, PlausibleQuery, QueryOptions } from "./types.js";
+import type { DailyRow } from "./warehouse.js";
+import type Database from "better-sqlite3";
+
+// Warehouse sync: backfill each site's datasets from the v2 query API, then
+// keep them current. Every run fetches the days since the last sync plus the
+// last refresh_days complete days, which Plausible may still be updating.
+
+export type SyncResult = {
+  site_id: string;
+  dataset: string;
+  date_range?: [string, string];
+  rows: number;
+  // Some chunk hit the auto-pagination row ceiling and is missing rows
+  truncated: boolean;
+  // The dataset's definition changed, so its table was rebuilt from scratch
+  rebuilt: boolean;
+  error?: string;
+};
+
+// Complete days only: the range ends yesterday in the reference timezone
+function syncRange(lastSynced: string | undefined): [string, string] | undefined {
+  const yesterday = addDays(currentDate(), -1);
+  const start = lastSynced === undefined
+    ? addDays(yesterday, 1 - warehouseConfig.backfill_days)
+    : new Date(Math.min(
+      addDays(parseIsoDate(lastSynced), 1).getTime(),
+      addDays(yesterday, 1 - warehouseConfig.refresh_days).getTime()
+    ));
+  return start > yesterday ? undefined : [formatIsoDate(start), formatIsoDate(yesterday)];
+}
+
+function chunks([start, end]: [string, string]): Array<[string, string]> {
+  const result: Array<[string, string]> = [];
+  for (let day = parseIsoDate(start); formatIsoDate(day) <= end; day = addDays(day, warehouseConfig.chunk_days)) {
+    const last = formatIsoDate(addDays(day, warehouseConfig.chunk_days - 1));
+    result.push([formatIsoDate(day), last < end ? last : end]);
+  }
+  return result;
+}
+
+function dailyRows(response: PlausibleApiResponse): Array<DailyRow> {
+  return response.results.map(row => {
+    const [time = "", ...dimensions] = row.dimensions;
+    return { date: time.slice(0, 10), dimensions, metrics: row.metrics.map(metricValue) };
+  });
+}
+
+async function syncDataset(db: Database.Database, siteId: string, dataset: WarehouseDataset): Promise<SyncResult> {
+  const table = warehouseTable(dataset);
+  const rebuilt = ensureDatasetTable(db, dataset);
+  const range = syncRange(syncedThrough(db, dataset.name, siteId));
+  const result: SyncResult = { site_id: siteId, dataset: dataset.name, rows: 0, truncated: false, rebuilt };
+  if (range === undefined) return result;
+
+  result.date_range = range;
+  for (const dateRange of chunks(range)) {
+    const query: PlausibleQuery & QueryOptions = {
+      site_id: siteId,
+      metrics: dataset.metrics,
+      date_range: dateRange,
+      dimensions: ["time:day", ...dataset.dimensions],
+      cache: "bypass",
+    };
+    validateWithLint(query, await loadSiteCatalog(query));
+
+    const response = await executePaginatedQuery(query, autoPaginateMaxRows);
+    const rows = dailyRows(response);
+    replaceDays(db, table, { siteId, dateRange, rows });
+    result.rows += rows.length;
+    result.truncated ||= response.meta?.truncated === true;
+  }
+  return result;
+}
+
+function warehouseSites(only: Array<string>): Array<string> {
+  if (only.length > 0) return only;
+  if (warehouseConfig.sites.length > 0) return warehouseConfig.sites;
+  if (defaultSiteId !== undefined) return [defaultSiteId];
+  throw new Error("No sites to sync. Set warehouse.sites, PLAUSIBLE_WAREHOUSE_SITES or PLAUSIBLE_DEFAULT_SITE, or name the sites: sync example.com");
+}
+
+// Sites and datasets are synced one at a time; a failure is recorded and the
+// rest still run. Synced chunks are committed, so an interrupted run resumes.
+export async function syncWarehouse(only: Array<string> = []): Promise<Array<SyncResult>> {
+  const sites = warehouseSites(only);
+  const db = await openWarehouse();
+  const results: Array<SyncResult> = [];
+  try {
+    for (const siteId of sites) {
+      const datasets = warehouseConfig.datasets.filter(dataset => dataset.sites?.includes(siteId) ?? true);
+      for (const dataset of datasets) {
+        try {
+          results.push(await syncDataset(db, siteId, dataset));
+        } catch (error) {
+          results.push({ site_id: siteId, dataset: dataset.name, rows: 0, truncated: false, rebuilt: false, error: errorText(error) });
+        }
+      }
+    }
+  } finally {
+    db.close();
+  }
+  return results;
+}
+
+function describeResult(result: SyncResult): string {
+  const label = `${result.site_id} ${result.dataset}`;
+  if (result.error !== undefined) return `${label}: failed: ${result.error}`;
+  if (result.date_range === undefined) return `${label}: up to date`;
+
+  const notes = [
+    ...(result.rebuilt ? ["definition changed, table rebuilt"] : []),
+    ...(result.truncated ? ["some days hit the row ceiling; lower warehouse.chunk_days or raise auto_paginate_max_rows"] : []),
+  ];
+  const suffix = notes.length > 0 ? ` (${notes.join("; ")})` : "";
+  return `${label}: ${String(result.rows)} rows for ${result.date_range.join(" to ")}${suffix}`;
+}
+
+// `sync [site ...]`. Returns the number of failed site/dataset pairs.
+export async function runSyncCommand(command: CliCommand): Promise<number> {
+  const results = await syncWarehouse(command.args);
+  for (const result of results) console.error(describeResult(result));
+  console.error(`Warehouse: ${warehouseConfig.path}`);
+  return results.filter(result => result.error !== undefined).length;
+}
@@ -0,0 +1,62 @@
+import Database from "better-sqlite3";
+
+import type { SqlResponse } from "./types.js";
+
+// Runs one plausible_sql statement in a child process started by
+// runWarehouseSql. A worker thread can't be stopped while SQLite is busy in
+// native code, but a process can be killed when it runs past the deadline.
+
+export type SqlJob = {
+  path: string;
+  sql: string;
+  maxRows: number;
+};
+
+// Errors cross the process boundary as plain data and are rebuilt as ValidationErrors
+export type SqlJobResult =
+  | { ok: true; response: SqlResponse }
+  | { ok: false; message: string; details: string };
+
+// The connection is opened read-only, and only statements that return rows are accepted
+function runJob({ path, sql, maxRows }: SqlJob): SqlJobResult {
+  const db = new Database(path, { readonly: true, fileMustExist: true });
+  try {
+    let statement: Database.Statement;
+    try {
+      statement = db.prepare(sql);
+    } catch (error) {
+      return {
+        ok: false,
+        message: `Invalid SQL: ${error instanceof Error ? error.message : String(error)}`,
+        details: "Send a single SELECT statement. Read plausible://warehouse/tables for the table and column names.",
+      };
+    }
+    if (!statement.reader) {
+      return {
+        ok: false,
+        message: "Only statements that return rows can run",
+        details: "The warehouse is read-only here; use SELECT (or WITH ... SELECT). It is written by `mcp-plausible sync`.",
+      };
+    }
+
+    const columns = statement.columns().map(column => column.name);
+    const rows: Array<Array<unknown>> = [];
+    let truncated = false;
+    for (const row of statement.raw(true).iterate() as IterableIterator<Array<unknown>>) {
+      if (rows.length === maxRows) {
+        truncated = true;
+        break;
+      }
+      rows.push(row);
+    }
+    return { ok: true, response: { sql, columns, rows, row_count: rows.length, truncated } };
+  } finally {
+    db.close();
+  }
+}
+
+process.once("message", job => {
+  process.send?.(runJob(job as SqlJob), () => {
+    process.disconnect();
+  });
+});
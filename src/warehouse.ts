@@ -0,0 +1,225 @@
+import { fork } from "child_process";
+import { existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { fileURLToPath } from "url";
+
+import { warehouseConfig } from "./constants.js";
+import { ValidationError } from "./types.js";
+
+import type { WarehouseDataset } from "./config.js";
+import type { SqlResponse } from "./types.js";
+import type { SqlJob, SqlJobResult } from "./warehouse-worker.js";
+import type Database from "better-sqlite3";
+
+// Local SQLite warehouse: one table of daily rows per configured dataset,
+// keyed by site_id, date and the dataset's dimensions. _datasets records each
+// table's definition and _sync_state how far each site has been synced.
+
+export type WarehouseTable = {
+  name: string;
+  dimensionColumns: Array<string>;
+  metricColumns: Array<string>;
+};
+
+export type DailyRow = {
+  date: string;
+  dimensions: Array<string>;
+  metrics: Array<number | null>;
+};
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// visit:source -> source, event:props:plan -> props_plan
+function dimensionColumn(dimension: string): string {
+  return dimension.replace(/^(visit|event):/, "").replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+export function warehouseTable(dataset: WarehouseDataset): WarehouseTable {
+  const timeDimension = dataset.dimensions.find(dimension => dimension.startsWith("time"));
+  if (timeDimension !== undefined) {
+    throw new ValidationError(
+      `Dataset '${dataset.name}' cannot use the '${timeDimension}' dimension`,
+      "Warehouse rows are already daily (the date column); list only event, visit and custom property dimensions."
+    );
+  }
+  const table = {
+    name: dataset.name,
+    dimensionColumns: dataset.dimensions.map(dimensionColumn),
+    metricColumns: dataset.metrics,
+  };
+  const columns = ["site_id", "date", ...table.dimensionColumns, ...table.metricColumns];
+  const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+  if (duplicate !== undefined) {
+    throw new ValidationError(
+      `Dataset '${dataset.name}' has two columns named '${duplicate}'`,
+      "Each dimension and metric must map to its own column; remove the duplicate from the dataset."
+    );
+  }
+  return table;
+}
+
+// better-sqlite3 is an optional native dependency, loaded on first use so the
+// server starts without it
+async function loadSqlite(): Promise<typeof Database> {
+  try {
+    return (await import("better-sqlite3")).default;
+  } catch {
+    throw new Error("The warehouse needs the optional better-sqlite3 package. Install it with: npm install better-sqlite3");
+  }
+}
+
+async function openDatabase(options?: Database.Options): Promise<Database.Database> {
+  const sqlite = await loadSqlite();
+  return new sqlite(warehouseConfig.path, options);
+}
+
+export async function openWarehouse(): Promise<Database.Database> {
+  mkdirSync(dirname(warehouseConfig.path), { recursive: true });
+  const db = await openDatabase();
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS _datasets (name TEXT PRIMARY KEY, definition TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS _sync_state (
+      dataset TEXT NOT NULL,
+      site_id TEXT NOT NULL,
+      synced_through TEXT NOT NULL,
+      synced_at TEXT NOT NULL,
+      PRIMARY KEY (dataset, site_id)
+    );
+  `);
+  return db;
+}
+
+// Create the dataset's table, or rebuild it when its metrics or dimensions
+// changed since the last sync. Returns true when a rebuild dropped stored rows.
+export function ensureDatasetTable(db: Database.Database, dataset: WarehouseDataset): boolean {
+  const table = warehouseTable(dataset);
+  const definition = JSON.stringify({ metrics: dataset.metrics, dimensions: dataset.dimensions });
+  const stored = db.prepare("SELECT definition FROM _datasets WHERE name = ?").get(dataset.name) as
+    { definition: string } | undefined;
+  if (stored?.definition === definition) return false;
+
+  const columns = [
+    "site_id TEXT NOT NULL",
+    "date TEXT NOT NULL",
+    ...table.dimensionColumns.map(column => `${quoteIdentifier(column)} TEXT NOT NULL`),
+    ...table.metricColumns.map(column => `${quoteIdentifier(column)} REAL`),
+  ];
+  const key = ["site_id", "date", ...table.dimensionColumns].map(quoteIdentifier).join(", ");
+
+  db.transaction(() => {
+    db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(table.name)}`);
+    db.exec(`CREATE TABLE ${quoteIdentifier(table.name)} (${columns.join(", ")}, PRIMARY KEY (${key}))`);
+    db.prepare("DELETE FROM _sync_state WHERE dataset = ?").run(dataset.name);
+    db.prepare("INSERT OR REPLACE INTO _datasets (name, definition) VALUES (?, ?)").run(dataset.name, definition);
+  })();
+  return stored !== undefined;
+}
+
+export function syncedThrough(db: Database.Database, dataset: string, siteId: string): string | undefined {
+  const state = db.prepare("SELECT synced_through FROM _sync_state WHERE dataset = ? AND site_id = ?").get(dataset, siteId) as
+    { synced_through: string } | undefined;
+  return state?.synced_through;
+}
+
+// Replace a site's rows for [start, end] and advance its sync state, atomically
+export function replaceDays(
+  db: Database.Database,
+  table: WarehouseTable,
+  chunk: { siteId: string; dateRange: [string, string]; rows: Array<DailyRow> }
+): void {
+  const { siteId, dateRange: [start, end], rows } = chunk;
+  const columns = ["site_id", "date", ...table.dimensionColumns, ...table.metricColumns];
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO ${quoteIdentifier(table.name)} (${columns.map(quoteIdentifier).join(", ")}) ` +
+    `VALUES (${columns.map(() => "?").join(", ")})`
+  );
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM ${quoteIdentifier(table.name)} WHERE site_id = ? AND date BETWEEN ? AND ?`).run(siteId, start, end);
+    for (const row of rows) insert.run(siteId, row.date, ...row.dimensions, ...row.metrics);
+    db.prepare(
+      "INSERT OR REPLACE INTO _sync_state (dataset, site_id, synced_through, synced_at) VALUES (?, ?, ?, ?)"
+    ).run(table.name, siteId, end, new Date().toISOString());
+  })();
+}
+
+function assertWarehouseExists(): void {
+  if (!existsSync(warehouseConfig.path)) {
+    throw new ValidationError(
+      `No warehouse at ${warehouseConfig.path}`,
+      "Run `mcp-plausible sync` to create and fill it, or set PLAUSIBLE_WAREHOUSE_PATH to an existing warehouse."
+    );
+  }
+}
+
+// Run one read-only statement in a child process, which is killed when the
+// statement runs past warehouse.sql_timeout_ms
+export async function runWarehouseSql(sql: string, maxRows: number): Promise<SqlResponse> {
+  assertWarehouseExists();
+  await loadSqlite();
+
+  const job: SqlJob = { path: warehouseConfig.path, sql, maxRows };
+  // stdout stays closed: on the stdio transport it carries the MCP protocol
+  const worker = fork(fileURLToPath(new URL("./warehouse-worker.js", import.meta.url)), [], {
+    stdio: ["ignore", "ignore", "inherit", "ipc"],
+    serialization: "advanced",
+  });
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      worker.kill("SIGKILL");
+      reject(new ValidationError(
+        `SQL statement ran longer than ${String(warehouseConfig.sql_timeout_ms)} ms and was stopped`,
+        "Narrow the date range, filter on site_id or aggregate in fewer steps."
+      ));
+    }, warehouseConfig.sql_timeout_ms);
+
+    worker.once("message", (result: SqlJobResult) => {
+      clearTimeout(timer);
+      if (result.ok) resolve(result.response);
+      else reject(new ValidationError(result.message, result.details));
+    });
+    worker.once("error", error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    worker.once("exit", code => {
+      clearTimeout(timer);
+      reject(new Error(`SQL worker exited with code ${String(code)} before returning a result`));
+    });
+    worker.send(job);
+  });
+}
+
+type TableSummary = {
+  name: string;
+  definition: { metrics: Array<string>; dimensions: Array<string> };
+  columns: Array<string>;
+  sites: Array<{ site_id: string; rows: number; first_date: string | null; synced_through: string | null }>;
+};
+
+// Tables, columns and per-site coverage, for the plausible://warehouse/tables resource
+export async function describeWarehouse(): Promise<{ path: string; tables: Array<TableSummary> }> {
+  if (!existsSync(warehouseConfig.path)) return { path: warehouseConfig.path, tables: [] };
+
+  const db = await openDatabase({ readonly: true, fileMustExist: true });
+  try {
+    const datasets = db.prepare("SELECT name, definition FROM _datasets ORDER BY name").all() as
+      Array<{ name: string; definition: string }>;
+    const tables = datasets.map(({ name, definition }) => {
+      const table = quoteIdentifier(name);
+      const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+      const sites = db.prepare(
+        `SELECT s.site_id, COUNT(t.site_id) AS rows, MIN(t.date) AS first_date, s.synced_through
+         FROM _sync_state s LEFT JOIN ${table} t ON t.site_id = s.site_id
+         WHERE s.dataset = ? GROUP BY s.site_id ORDER BY s.site_id`
+      ).all(name) as TableSummary["sites"];
+      return { name, definition: JSON.parse(definition) as TableSummary["definition"], columns, sites };
+    });
+    return { path: warehouseConfig.path, tables };
+  } finally {
+    db.close();
+  }
+}